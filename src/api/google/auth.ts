@@ -14,6 +14,22 @@ const SCOPES = [
     'https://www.googleapis.com/auth/gmail.labels'
 ];
 
+// Scope to edit contacts, which is only requested when a contact is saved for the first time
+export const CONTACTS_WRITE_SCOPE = 'https://www.googleapis.com/auth/contacts';
+
+/**
+ * Check whether the token of an account was granted a scope.
+ * @param token - OAuth2 token for the account, as saved after authentication.
+ */
+export const hasTokenScope = (token: string | undefined, scope: string): boolean => {
+    try {
+        const { scope: grantedScopes } = JSON.parse(token || '{}');
+        return typeof grantedScopes === 'string' && grantedScopes.split(' ').includes(scope);
+    } catch (err) {
+        return false;
+    }
+};
+
 /**
  * Get an authenticated OAuth2 client.
  * @param credentials - Google API credentials.
@@ -47,17 +63,20 @@ export const getAuthClient = async (credentials: GoogleCredentials, token: strin
 
 /**
  * Generate an authentication URL for the user to authorize the app.
+ * Scopes that were granted before are kept, so optional scopes only need to be requested once.
  * @param credentials - Google API credentials.
+ * @param extraScopes - Optional scopes to request on top of the default ones, e.g. to edit contacts.
  * @returns The authentication URL or undefined if an error occurs.
  */
-export const getAuthURL = async (credentials: GoogleCredentials): Promise<string | undefined> => {
+export const getAuthURL = async (credentials: GoogleCredentials, extraScopes: string[] = []): Promise<string | undefined> => {
     try {
         console.log('Credentials:', credentials); // Log the credentials object
         const { client_id, client_secret, redirect_uris } = credentials;
         const oAuth2Client = new OAuth2Client(client_id, client_secret, redirect_uris[0]);
         const authUrl = oAuth2Client.generateAuthUrl({
             access_type: 'offline',
-            scope: SCOPES,
+            scope: [...SCOPES, ...extraScopes],
+            include_granted_scopes: true,
             redirect_uri: redirect_uris[0], // Ensure this matches the registered URI
         });
         console.log('Generated Auth URL:', authUrl);
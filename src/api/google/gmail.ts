@@ -1,11 +1,14 @@
 import { gmail_v1, gmail } from '@googleapis/gmail';
 import { OAuth2Client } from 'google-auth-library';
 import { getAuthClient } from './auth';
-import { GoogleServiceOptions } from '@/types';
+import { countAttachmentParts, messageToEmailContent } from '@/utils/mime';
+import { mapWithConcurrency } from '@/utils/concurrency';
+import { EmailContent, EmailLabelChanges, EmailPostImportActions, EmailSearchResult, GoogleServiceOptions } from '@/types';
 
 interface GmailQueryOptions {
     service: gmail_v1.Gmail;
     accountName: string;
+    query: string;
 }
 
 /**
@@ -26,67 +29,251 @@ export const getGmailService = async ({ credentials, token }: GoogleServiceOptio
     }
 };
 
+// Number of messages fetched from Gmail at the same time
+const MESSAGE_FETCH_CONCURRENCY = 5;
+// Fields of a message part fetched in the `preview` format, with the child parts nested up to `depth` levels
+const getPreviewPartFields = (depth: number): string => {
+    const fields = 'partId,mimeType,filename,headers,body(size,attachmentId)';
+    return depth > 0 ? `${fields},parts(${getPreviewPartFields(depth - 1)})` : fields;
+};
+// Fields fetched for messages in the `preview` format: everything but the part bodies
+const PREVIEW_FIELDS = `id,threadId,labelIds,snippet,internalDate,payload(${getPreviewPartFields(6)})`;
+// Number of emails shown for a search
+const EMAIL_SEARCH_MAX_RESULTS = 10;
+
+/**
+ * Fetch the IDs of all emails matching a Gmail search query for the authenticated user, following every result page.
+ * @param service - Gmail service instance.
+ * @param accountName - The name of the Google account.
+ * @param query - Gmail search query (any `q` syntax, e.g. `label:Send2Obsidian` or `from:someone newer_than:7d`).
+ * @returns List of message IDs matching the query, newest first.
+ * Throws when a result page cannot be fetched (e.g. quota or network errors), rather than returning a partial list
+ * that would let the incremental sync move past messages that were never listed.
+ */
+export const fetchMessageIdsForQuery = async ({ service, accountName, query }: GmailQueryOptions): Promise<string[]> => {
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
+
+    try {
+        do {
+            const response = await service.users.messages.list({
+                userId: 'me',
+                q: query,
+                maxResults: 500,
+                pageToken,
+            });
+
+            if (response.status !== 200) {
+                throw new Error(`Error querying Gmail API: ${response.statusText}`);
+            }
+
+            for (const message of response.data.messages || []) {
+                if (message.id) {
+                    messageIds.push(message.id);
+                }
+            }
+            pageToken = response.data.nextPageToken || undefined;
+        } while (pageToken);
+    } catch (err: any) {
+        console.error(`Unable to query Gmail API for account ${accountName}: ${err.message}`);
+        throw new Error(`Unable to list emails matching "${query}": ${err.message}`);
+    }
+
+    return messageIds;
+};
+
 /**
- * Fetch the subjects and message IDs of emails with the label "Send2Obsidian" for the authenticated user.
+ * Search for emails with a Gmail search query, e.g. to pick one in a suggest modal.
+ * Only the headers of the emails are fetched, so the results have no bodies or attachments.
+ * @param query - Gmail search query.
  * @param service - Gmail service instance.
  * @param accountName - The name of the Google account.
- * @returns List of email subjects and message IDs with the label "Send2Obsidian".
+ * @returns The newest matching emails, or undefined if the search failed (e.g. because the login expired).
  */
-export const fetchEmailsWithLabelSubjects = async ({ service, accountName }: GmailQueryOptions): Promise<{ subject: string; messageId: string }[]> => {
+export const searchEmails = async (
+    query: string,
+    { service, accountName }: Omit<GmailQueryOptions, 'query'>
+): Promise<EmailSearchResult[] | undefined> => {
     try {
         const response = await service.users.messages.list({
             userId: 'me',
-            q: 'label:Send2Obsidian', // Gmail query to filter emails with the label "Send2Obsidian"
+            q: query,
+            maxResults: EMAIL_SEARCH_MAX_RESULTS,
         });
 
         if (response.status !== 200) {
             console.warn(`Error querying Gmail API: ${response.statusText}`);
-            return [];
+            return;
         }
 
-        const messageIds = response.data.messages?.map((message) => message.id) || [];
-        const messages: { subject: string; messageId: string }[] = [];
-
-        for (const messageId of messageIds) {
-            if (!messageId) continue;
-
-            try {
-                const message = await service.users.messages.get({
-                    userId: 'me',
-                    id: messageId,
-                    format: 'metadata',
-                    metadataHeaders: ['Subject'],
-                });
-
-                const headers = (message.data.payload?.headers || []) as gmail_v1.Schema$MessagePartHeader[];
-                const subjectHeader = headers.find((header) => header.name === 'Subject');
-                const subject = subjectHeader?.value || 'No Subject';
-
-                messages.push({ subject, messageId });
-
-                // Uncomment and replace label IDs if you want to modify labels after fetching
-                /*
-                await service.users.messages.modify({
-                    userId: 'me',
-                    id: messageId,
-                    requestBody: {
-                        addLabelIds: ['Label_Sent2Obsidian'], // Add the new label (replace with your label ID)
-                        removeLabelIds: ['Label_Send2Obsidian'], // Remove the old label (replace with your label ID)
-                    },
-                });
-                */
-            } catch (err: any) {
-                console.error(`Failed to fetch or modify message details for ID ${messageId}: ${err.message}`);
-            }
-        }
+        const messageIds = (response.data.messages || []).map((m) => m.id).filter((id): id is string => !!id);
+        return await mapWithConcurrency(messageIds, MESSAGE_FETCH_CONCURRENCY, async (messageId) => {
+            const message = await service.users.messages.get({
+                userId: 'me',
+                id: messageId,
+                format: 'metadata',
+                metadataHeaders: ['From', 'To', 'Cc', 'Subject', 'Date'],
+            });
+            return { ...messageToEmailContent(message.data), accountSource: accountName };
+        });
+    } catch (err: any) {
+        console.warn(`Cannot search Gmail for account ${accountName}: ${err.message}`);
+        return;
+    }
+};
 
-        return messages;
+/**
+ * Get the current history ID of the mailbox, the starting point for a later incremental sync.
+ * @param service - Gmail service instance.
+ * @returns The history ID, or undefined if it cannot be fetched.
+ */
+export const fetchCurrentHistoryId = async (service: gmail_v1.Gmail): Promise<string | undefined> => {
+    try {
+        const response = await service.users.getProfile({ userId: 'me' });
+        return response.data.historyId || undefined;
     } catch (err: any) {
-        console.error(`Unable to query Gmail API for account ${accountName}: ${err.message}`);
-        return [];
+        console.warn(`Unable to fetch Gmail history ID: ${err.message}`);
+        return;
     }
 };
 
+/**
+ * Get the label name when a Gmail query is nothing but a single `label:` term.
+ * @param query - Gmail search query.
+ * @returns The label name, or undefined for any other query.
+ */
+export const getSingleQueryLabel = (query: string): string | undefined => {
+    const match = query.trim().match(/^label:(?:"([^"]+)"|(\S+))$/i);
+    return match ? match[1] || match[2] : undefined;
+};
+
+/**
+ * Fetch the IDs of messages that had a label added (or arrived with it) since a history ID.
+ * @param service - Gmail service instance.
+ * @param startHistoryId - History ID saved at the end of the previous sync.
+ * @param labelName - Name of the label to look for.
+ * @returns The message IDs, the label ID and the history ID to start from next time, or undefined when
+ * the label does not exist or the history is no longer available (Gmail keeps it for about a week).
+ */
+export const fetchMessageIdsSinceHistory = async ({
+    service,
+    startHistoryId,
+    labelName,
+}: {
+    service: gmail_v1.Gmail;
+    startHistoryId: string;
+    labelName: string;
+}): Promise<{ messageIds: string[]; labelId: string; historyId: string } | undefined> => {
+    const label = (await fetchGmailLabels(service)).find(
+        (l) => normalizeLabelName(l.name) === normalizeLabelName(labelName)
+    );
+    if (!label) {
+        return;
+    }
+
+    const messageIds = new Set<string>();
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    try {
+        do {
+            const response = await service.users.history.list({
+                userId: 'me',
+                startHistoryId,
+                labelId: label.id,
+                historyTypes: ['labelAdded', 'messageAdded'],
+                maxResults: 500,
+                pageToken,
+            });
+
+            for (const history of response.data.history || []) {
+                for (const { message } of [...(history.labelsAdded || []), ...(history.messagesAdded || [])]) {
+                    if (message?.id && message.labelIds?.includes(label.id)) {
+                        messageIds.add(message.id);
+                    }
+                }
+            }
+            historyId = response.data.historyId || historyId;
+            pageToken = response.data.nextPageToken || undefined;
+        } while (pageToken);
+    } catch (err: any) {
+        // Gmail answers 404 when startHistoryId is too old
+        console.warn(`Unable to fetch Gmail history since ${startHistoryId}: ${err.message}`);
+        return;
+    }
+
+    return { messageIds: Array.from(messageIds), labelId: label.id, historyId };
+};
+
+/**
+ * Fetch messages in the `full` format, a few at a time.
+ * @param service - Gmail service instance.
+ * @param messageIds - IDs of the messages to fetch.
+ * @param onFetched - Called after each message has been fetched, e.g. to report progress.
+ * @param format - `preview` leaves out the bodies of the parts, and sets the `attachmentCount` of the emails instead
+ * of their bodies and attachments.
+ * @returns The content of each message, or the error that prevented fetching it, in the order of `messageIds`.
+ */
+export const fetchMessages = async ({
+    service,
+    messageIds,
+    onFetched,
+    format = 'full',
+}: {
+    service: gmail_v1.Gmail;
+    messageIds: string[];
+    onFetched?: () => void;
+    format?: 'full' | 'preview';
+}): Promise<{ messageId: string; email?: EmailContent; error?: string }[]> => {
+    return mapWithConcurrency(messageIds, MESSAGE_FETCH_CONCURRENCY, async (messageId) => {
+        try {
+            const response = await service.users.messages.get({
+                userId: 'me',
+                id: messageId,
+                format: 'full',
+                fields: format === 'preview' ? PREVIEW_FIELDS : undefined,
+            });
+            const email = messageToEmailContent(response.data);
+            if (format === 'preview') {
+                // Attachments cannot be saved without their bodies, so only their number is kept
+                const attachmentCount = countAttachmentParts(response.data.payload);
+                return { messageId, email: { ...email, attachments: [], attachmentCount } };
+            }
+            return { messageId, email };
+        } catch (err: any) {
+            console.error(`Failed to fetch message ${messageId}: ${err.message}`);
+            return { messageId, error: err.message as string };
+        } finally {
+            onFetched?.();
+        }
+    });
+};
+
+/**
+ * Fetch all messages of a Gmail thread in the `full` format.  Drafts and messages in the trash are left out.
+ * @param service - Gmail service instance.
+ * @param threadId - ID of the thread.
+ * @returns The content of each message, oldest first.
+ */
+export const fetchThreadMessages = async ({
+    service,
+    threadId,
+}: {
+    service: gmail_v1.Gmail;
+    threadId: string;
+}): Promise<EmailContent[]> => {
+    const response = await service.users.threads.get({
+        userId: 'me',
+        id: threadId,
+        format: 'full',
+    });
+
+    return (response.data.messages || [])
+        .filter((message) => !message.labelIds?.some((id) => id === 'DRAFT' || id === 'TRASH'))
+        .sort((a, b) => Number(a.internalDate || 0) - Number(b.internalDate || 0))
+        .map((message) => messageToEmailContent(message));
+};
+
 /**
  * Fetch the list of Gmail labels for the authenticated user.
  * @param service - Gmail service instance.
@@ -101,4 +288,186 @@ export const fetchGmailLabels = async (service: gmail_v1.Gmail): Promise<{ id: s
         console.error(`Failed to fetch Gmail labels: ${err.message}`);
         return [];
     }
-};
\ No newline at end of file
+};
+/**
+ * Create a Gmail label that is visible in the label list and the message list.
+ * @param service - Gmail service instance.
+ * @param name - Name of the label to create.
+ * @returns The ID of the created label.
+ */
+export const createGmailLabel = async (service: gmail_v1.Gmail, name: string): Promise<string> => {
+    const response = await service.users.labels.create({
+        userId: 'me',
+        requestBody: {
+            name,
+            labelListVisibility: 'labelShow',
+            messageListVisibility: 'show',
+        },
+    });
+    return response.data.id!;
+};
+
+/**
+ * Get the label names referenced by `label:` terms of a Gmail search query.  Negated terms (`-label:`) are ignored.
+ * @param query - Gmail search query.
+ * @returns List of label names as written in the query.
+ */
+export const getQueryLabelNames = (query: string): string[] => {
+    const regex = /(?:^|[\s(])label:(?:"([^"]+)"|([^\s)]+))/gi;
+    const names: string[] = [];
+    let match;
+    while ((match = regex.exec(query)) !== null) {
+        names.push(match[1] || match[2]);
+    }
+    return names;
+};
+
+// Gmail matches `label:my-label` against a label named "My Label", so compare names loosely
+const normalizeLabelName = (name: string) => name.toLowerCase().replace(/[\s\-/]+/g, '-');
+
+/**
+ * Find the label of a Gmail query that an email carries, e.g. "Send2Obsidian" for `label:send2obsidian`.
+ * @param query - Gmail search query.
+ * @param labelNames - Names of the labels of the email.
+ * @returns The label name as shown in Gmail, the first label of the query when the email carries none of them,
+ * or undefined when the query has no labels.
+ */
+export const findQueryLabelName = (query: string, labelNames: string[]): string | undefined => {
+    const queryLabels = getQueryLabelNames(query);
+    for (const queryLabel of queryLabels) {
+        const labelName = labelNames.find((name) => normalizeLabelName(name) === normalizeLabelName(queryLabel));
+        if (labelName) {
+            return labelName;
+        }
+    }
+    return queryLabels[0];
+};
+
+/**
+ * Resolve the post-import actions into the label IDs to add and remove on each imported message.
+ * A missing label to add is not created here, but by `modifyEmailLabels` once a message needs it.
+ * @param service - Gmail service instance.
+ * @param query - The Gmail query that was used to find the messages.
+ * @param actions - The configured post-import actions.
+ * @returns The label changes to apply, with a readable description of them.
+ */
+export const resolveLabelChanges = async ({
+    service,
+    query,
+    actions,
+}: {
+    service: gmail_v1.Gmail;
+    query: string;
+    actions: EmailPostImportActions;
+}): Promise<EmailLabelChanges> => {
+    const changes: EmailLabelChanges = { addLabelIds: [], removeLabelIds: [], description: '' };
+    const descriptions: string[] = [];
+    const labels = await fetchGmailLabels(service);
+    const findLabel = (name: string) => labels.find((l) => normalizeLabelName(l.name) === normalizeLabelName(name));
+
+    if (actions.removeQueryLabels) {
+        for (const name of getQueryLabelNames(query)) {
+            const label = findLabel(name);
+            if (label) {
+                changes.removeLabelIds.push(label.id);
+                descriptions.push(`remove label "${label.name}"`);
+            }
+        }
+    }
+
+    const addLabel = actions.addLabel.trim();
+    if (addLabel) {
+        const label = findLabel(addLabel);
+        if (label) {
+            changes.addLabelIds.push(label.id);
+        } else {
+            changes.createLabelName = addLabel;
+        }
+        descriptions.push(`add label "${label?.name ?? addLabel}"${label ? '' : ' (new label)'}`);
+    }
+
+    if (actions.archive) {
+        changes.removeLabelIds.push('INBOX');
+        descriptions.push('archive');
+    }
+
+    if (actions.markRead) {
+        changes.removeLabelIds.push('UNREAD');
+        descriptions.push('mark read');
+    }
+
+    changes.description = descriptions.join(', ');
+    return changes;
+};
+
+// Check whether label changes from `resolveLabelChanges` modify messages at all
+export const hasLabelChanges = (changes: EmailLabelChanges): boolean => {
+    return changes.addLabelIds.length > 0 || changes.removeLabelIds.length > 0 || !!changes.createLabelName;
+};
+
+/**
+ * Apply label changes to a message.  In a dry run the changes are only logged.
+ * The label to create is created the first time, and `changes` is updated with its ID for the next messages.
+ * @param service - Gmail service instance.
+ * @param messageId - ID of the message to modify.
+ * @param changes - Label changes from `resolveLabelChanges`.
+ * @param dryRun - When true, Gmail is not modified.
+ */
+export const modifyEmailLabels = async ({
+    service,
+    messageId,
+    changes,
+    dryRun,
+}: {
+    service: gmail_v1.Gmail;
+    messageId: string;
+    changes: EmailLabelChanges;
+    dryRun: boolean;
+}): Promise<void> => {
+    if (!hasLabelChanges(changes)) {
+        return;
+    }
+
+    if (dryRun) {
+        console.log(`[dry run] would ${changes.description} for message ${messageId}`);
+        return;
+    }
+
+    if (changes.createLabelName) {
+        changes.addLabelIds.push(await createGmailLabel(service, changes.createLabelName));
+        changes.createLabelName = undefined;
+    }
+
+    await service.users.messages.modify({
+        userId: 'me',
+        id: messageId,
+        requestBody: {
+            addLabelIds: changes.addLabelIds,
+            removeLabelIds: changes.removeLabelIds,
+        },
+    });
+};
+
+/**
+ * Fetch the contents of a message attachment.
+ * @param service - Gmail service instance.
+ * @param messageId - ID of the message the attachment belongs to.
+ * @param attachmentId - ID of the attachment.
+ * @returns The attachment contents.
+ */
+export const fetchAttachmentData = async ({
+    service,
+    messageId,
+    attachmentId,
+}: {
+    service: gmail_v1.Gmail;
+    messageId: string;
+    attachmentId: string;
+}): Promise<Buffer> => {
+    const response = await service.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: attachmentId,
+    });
+    return Buffer.from(response.data.data || '', 'base64');
+};
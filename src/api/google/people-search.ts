@@ -1,6 +1,6 @@
 import { people_v1, people } from '@googleapis/people';
 import { getAuthClient } from './auth';
-import { GoogleServiceOptions, PersonResult } from '@/types';
+import { ContactGroup, GoogleServiceOptions, PersonResult } from '@/types';
 import { formatBirthday } from '@/utils';
 
 interface QueryOptions {
@@ -9,11 +9,17 @@ interface QueryOptions {
 }
 
 const readMask =
-	'names,nicknames,emailAddresses,phoneNumbers,biographies,calendarUrls,organizations,metadata,birthdays,urls,clientData,relations,userDefined,biographies,addresses,memberships';
+	'names,nicknames,emailAddresses,phoneNumbers,biographies,calendarUrls,organizations,metadata,birthdays,urls,clientData,relations,userDefined,biographies,addresses,memberships,photos';
+
+// Names of the contact groups of each account, by resource name
+const contactGroupNames = new Map<string, Map<string, string>>();
+
+// Other contacts only support a few fields
+const otherContactsReadMask = 'names,emailAddresses,phoneNumbers,metadata,photos';
 
 const parsePersonData = (
 	p: people_v1.Schema$Person,
-	type: 'DIRECTORY' | 'CONTACTS',
+	type: 'DIRECTORY' | 'CONTACTS' | 'OTHER_CONTACTS',
 	accountSource: string
 ): PersonResult => {
 	const {
@@ -30,8 +36,11 @@ const parsePersonData = (
 		biographies,
 		addresses,
 		nicknames,
-		memberships
+		memberships,
+		photos
 	} = p;
+	// Contacts without a photo of their own get a default avatar with their initials
+	const photo = photos?.find((ph) => ph.metadata?.primary) ?? photos?.[0];
 	return {
 		accountSource,
 		resourceName,
@@ -95,7 +104,8 @@ const parsePersonData = (
 						return m.domainMembership;
 					})
 					.first()?.domainMembership?.inViewerDomain
-			: false
+			: false,
+		photoUrl: photo && !photo.default && photo.url ? photo.url : undefined
 	};
 };
 
@@ -114,8 +124,10 @@ export const searchContactsAndDirectory = async (
 ): Promise<PersonResult[] | undefined> => {
 	const directory = await searchDirectory(query, options);
 	const contacts = await searchContacts(query, options);
+	const otherContacts = await searchOtherContacts(query, options);
 
-	return directory && contacts ? directory.concat(contacts) : directory ? directory : contacts ? contacts : undefined;
+	const results = [directory, contacts, otherContacts];
+	return results.every((r) => r === undefined) ? undefined : results.flatMap((r) => r ?? []);
 };
 
 export const searchDirectory = async (
@@ -164,15 +176,214 @@ export const searchContacts = async (
 			return [];
 		}
 
+		return await addContactGroups(
+			{ service, accountName },
+			response.data.results.map((p): PersonResult => {
+				// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+				return parsePersonData(p.person!, 'CONTACTS', accountName);
+			})
+		);
+	} catch (err: any) {
+		console.error(`unable to query contact: ${err.message}`);
+	}
+};
+
+// Google answers 410 (Gone) when the sync token has expired, or 400 with the reason EXPIRED_SYNC_TOKEN
+const isExpiredSyncToken = (err: any): boolean => {
+	if (err.code === 410 || err.response?.status === 410) {
+		return true;
+	}
+	const details: any[] = err.response?.data?.error?.details ?? [];
+	return details.some((detail) => detail?.reason === 'EXPIRED_SYNC_TOKEN');
+};
+
+/**
+ * Fetch the saved contacts of an account, page by page.
+ * @param syncToken - Sync token saved at the end of the previous sync.  When set, only the contacts that changed since
+ * then are returned, including the ones that were deleted.
+ * @param onPage - Called with the number of contacts fetched so far, e.g. to report progress.
+ * @returns The changed contacts, the resource names of deleted contacts and the sync token to use next time, or
+ * undefined when the sync token is no longer valid (Google keeps them for about a week) and a full sync is needed.
+ */
+export const fetchContactChanges = async (
+	{ service, accountName }: QueryOptions,
+	syncToken?: string,
+	onPage?: (count: number) => void
+): Promise<{ people: PersonResult[]; deleted: string[]; syncToken: string | undefined } | undefined> => {
+	const people: PersonResult[] = [];
+	const deleted: string[] = [];
+	let nextSyncToken: string | undefined;
+	let pageToken: string | undefined;
+
+	try {
+		do {
+			const response = await service.people.connections.list({
+				resourceName: 'people/me',
+				personFields: readMask,
+				pageSize: 1000,
+				pageToken,
+				requestSyncToken: true,
+				syncToken
+			});
+
+			for (const p of response.data.connections ?? []) {
+				if (p.metadata?.deleted) {
+					p.resourceName && deleted.push(p.resourceName);
+				} else {
+					people.push(parsePersonData(p, 'CONTACTS', accountName));
+				}
+			}
+			onPage?.(people.length + deleted.length);
+			nextSyncToken = response.data.nextSyncToken ?? nextSyncToken;
+			pageToken = response.data.nextPageToken ?? undefined;
+		} while (pageToken);
+	} catch (err: any) {
+		if (syncToken && isExpiredSyncToken(err)) {
+			console.warn(`Contact sync token for ${accountName} has expired: ${err.message}`);
+			return;
+		}
+		throw err;
+	}
+
+	return { people: await addContactGroups({ service, accountName }, people), deleted, syncToken: nextSyncToken };
+};
+
+/**
+ * Fetch a single contact or directory profile by its resource name, e.g. `people/c1234567890`.
+ * Throws when the person cannot be fetched, e.g. because it was deleted or belongs to another account.
+ */
+export const fetchContact = async ({ service, accountName }: QueryOptions, resourceName: string): Promise<PersonResult> => {
+	const response = await service.people.get({ resourceName, personFields: readMask });
+	const isContact = response.data.metadata?.sources?.some((source) => source.type === 'CONTACT');
+	const [person] = await addContactGroups({ service, accountName }, [
+		parsePersonData(response.data, isContact ? 'CONTACTS' : 'DIRECTORY', accountName)
+	]);
+	return person;
+};
+
+/**
+ * Fetch the contact groups (labels) of an account, both the ones created by the user and the system groups such as
+ * "myContacts" and "starred".
+ */
+export const fetchContactGroups = async ({
+	service
+}: Pick<QueryOptions, 'service'>): Promise<ContactGroup[]> => {
+	const groups: ContactGroup[] = [];
+	let pageToken: string | undefined;
+
+	do {
+		const response = await service.contactGroups.list({ pageSize: 1000, pageToken });
+		for (const group of response.data.contactGroups ?? []) {
+			if (group.resourceName) {
+				groups.push({ resourceName: group.resourceName, name: group.formattedName || group.name || group.resourceName });
+			}
+		}
+		pageToken = response.data.nextPageToken ?? undefined;
+	} while (pageToken);
+
+	return groups;
+};
+
+/**
+ * Forget the contact group names of an account, or of all accounts, so that renamed groups are fetched again.
+ */
+export const clearContactGroupNames = (accountName?: string) => {
+	if (accountName) {
+		contactGroupNames.delete(accountName);
+	} else {
+		contactGroupNames.clear();
+	}
+};
+
+/**
+ * Add the names of their contact groups to people.  The groups of an account are listed once and cached; groups that
+ * were created after that are fetched by their IDs.  People keep only the IDs of their groups when the names cannot be
+ * fetched.
+ */
+const addContactGroups = async ({ service, accountName }: QueryOptions, people: PersonResult[]): Promise<PersonResult[]> => {
+	try {
+		let names = contactGroupNames.get(accountName);
+		if (!names) {
+			names = new Map((await fetchContactGroups({ service })).map((g) => [g.resourceName, g.name]));
+			contactGroupNames.set(accountName, names);
+		}
+
+		const groupIds = people.flatMap((p) => p.contactGroupMembership ?? []).filter((id): id is string => !!id);
+		const missing = Array.from(new Set(groupIds)).filter((id) => !names!.has(id));
+		// batchGet takes up to 200 groups at once
+		for (let i = 0; i < missing.length; i += 200) {
+			const response = await service.contactGroups.batchGet({ resourceNames: missing.slice(i, i + 200), maxMembers: 0 });
+			for (const { contactGroup } of response.data.responses ?? []) {
+				if (contactGroup?.resourceName) {
+					names.set(
+						contactGroup.resourceName,
+						contactGroup.formattedName || contactGroup.name || contactGroup.resourceName
+					);
+				}
+			}
+		}
+
+		for (const person of people) {
+			person.contactGroups = (person.contactGroupMembership ?? [])
+				.filter((id): id is string => !!id)
+				.map((id) => ({ resourceName: id, name: names!.get(id) ?? id.replace('contactGroups/', '') }));
+		}
+	} catch (err: any) {
+		console.warn(`unable to fetch contact groups for ${accountName}: ${err.message}`);
+	}
+	return people;
+};
+
+/**
+ * Search the "Other contacts" of an account: people that were emailed but never saved as a contact.
+ */
+export const searchOtherContacts = async (
+	query: string,
+	{ service, accountName }: QueryOptions
+): Promise<PersonResult[] | undefined> => {
+	try {
+		const response = await service.otherContacts.search({
+			query,
+			readMask: otherContactsReadMask
+		});
+
+		if (response.status !== 200) {
+			console.warn(`error querying people api ${response.statusText}`);
+			return;
+		}
+		if (!response.data?.results || response.data?.results?.length === 0) {
+			return [];
+		}
+
 		return response.data.results.map((p): PersonResult => {
 			// eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-			return parsePersonData(p.person!, 'CONTACTS', accountName);
+			return parsePersonData(p.person!, 'OTHER_CONTACTS', accountName);
 		});
 	} catch (err: any) {
-		console.error(`unable to query contact: ${err.message}`);
+		console.error(`unable to query other contacts: ${err.message}`);
 	}
 };
 
+/**
+ * Save a person from "Other contacts" as a contact of the account, so that all of their details can be edited and
+ * they show up in contact searches and syncs.
+ * @returns The new contact, which has a resource name of its own.
+ */
+export const copyOtherContactToContacts = async (
+	{ service, accountName }: QueryOptions,
+	resourceName: string
+): Promise<PersonResult> => {
+	const response = await service.otherContacts.copyOtherContactToMyContactsGroup({
+		resourceName,
+		requestBody: {
+			copyMask: 'names,emailAddresses,phoneNumbers',
+			readMask
+		}
+	});
+	const [contact] = await addContactGroups({ service, accountName }, [parsePersonData(response.data, 'CONTACTS', accountName)]);
+	return contact;
+};
+
 export const getAuthenticatedUserEmail = async ({ service }: QueryOptions): Promise<string | null | undefined> => {
 	try {
 		const response = await service.people.get({
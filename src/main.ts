@@ -2,14 +2,37 @@ import { PersonSuggestModal } from '@/ui/person-modal';
 import { GoogleAccount } from 'models/Account';
 import { Notice, Plugin } from 'obsidian';
 import { EventSuggestModal } from '@/ui/calendar-modal';
+import { EmailSuggestModal } from '@/ui/email-modal';
 import { DEFAULT_SETTINGS, GoogleLookupSettingTab } from './settings';
-import { GoogleLookupPluginSettings } from './types';
+import { EmailImportOptions, EmailImportResult, GoogleLookupPluginSettings, PersonResult } from './types';
 import { getGoogleCredentials, hasGoogleCredentials } from './settings/google-credentials';
-import { getGmailService, fetchEmailsWithLabelSubjects } from '@/api/google/gmail';
-import { removeInvalidFileNameChars, saveFileToStack, prepareEmailContent, fetchEmailContent } from '@/utils/files';
+import { getGmailService } from '@/api/google/gmail';
+import { fetchPendingEmails, importEmail, importEmailThread, runEmailImport } from '@/utils/email-import';
+import { fetchEmailContent } from '@/utils/files';
+import { EmailLedgerItem, ImportLedger } from '@/models/ImportLedger';
+import { ImportLedgerSuggestModal } from '@/ui/ledger-modal';
+import { EmailPreviewModal } from '@/ui/email-preview-modal';
+import { ProgressNotice } from '@/ui/progress-notice';
+import { EmailScheduler } from '@/models/EmailScheduler';
+import { importEmailFiles } from '@/utils/email-archive';
+import { pickLocalFiles } from '@/ui/file-picker';
+import { EmailImportReportModal } from '@/ui/email-report-modal';
+import { appendEmailImportLog } from '@/utils/email-report';
+import { syncContacts } from '@/utils/contact-sync';
+import { fetchContact, getPeopleService } from '@/api/google/people-search';
+import { Person } from '@/models/Person';
+import { getNoteName, getRefreshedPersonNote } from '@/utils/person-note';
+import { saveContactPhoto } from '@/utils/contact-photo';
+import { diffLines } from '@/utils/diff';
+import { ContactRefreshModal } from '@/ui/contact-refresh-modal';
 
 export default class GoogleLookupPlugin extends Plugin {
     settings: GoogleLookupPluginSettings | undefined;
+    ledger: ImportLedger = new ImportLedger(this);
+    emailImportRunning = false;
+    emailScheduler: EmailScheduler = new EmailScheduler(this);
+    lastEmailImportResult: EmailImportResult | undefined;
+    contactSyncRunning = false;
 
     async onload() {
         await this.loadSettings();
@@ -24,6 +47,8 @@ export default class GoogleLookupPlugin extends Plugin {
 					template: this.settings!.template_file_person,
 					moveToFolder: this.settings!.folder_person,
 					newFilenameTemplate: this.settings!.person_filename_format,
+					savePhoto: (person, note) => saveContactPhoto(this, person, getNoteName(person, note)),
+					groupFolders: this.settings!.contacts_group_folders,
 				}).open();
 				console.log('PersonSuggestModal opened successfully.');
 			} catch (error) {
@@ -33,6 +58,26 @@ export default class GoogleLookupPlugin extends Plugin {
 			}
 		});
 
+        // Add command to update the person note in the active editor with the current details of the contact
+        this.addCommandIfMarkdownView('Refresh Contact', 'refresh-contact', async () => {
+            try {
+                await this.refreshContact();
+            } catch (error) {
+                const err = error as Error;
+                console.error(`Error refreshing contact: ${err.message}`);
+                new Notice(`Error refreshing contact: ${err.message}`);
+            }
+        });
+
+        // Add command to create a person note for every Google contact
+        this.addCommand({
+            id: 'sync-contacts',
+            name: 'Sync Contacts',
+            callback: async () => {
+                await this.syncContacts();
+            },
+        });
+
         // Add command to insert event info
         this.addCommandIfMarkdownView('Insert Event Info', 'insert-event-info', () => {
             try {
@@ -47,96 +92,353 @@ export default class GoogleLookupPlugin extends Plugin {
             }
         });
 
-        // Add command to fetch emails with the label "Sent2Obsidian"
+        // Add command to search Gmail and insert a summary of an email
+        this.addCommandIfMarkdownView('Insert Email', 'insert-email', () => {
+            try {
+                new EmailSuggestModal(this.app, {
+                    template: this.settings!.template_file_email_summary,
+                }).open();
+            } catch (error) {
+                const err = error as Error;
+                console.error('Error opening EmailSuggestModal:', err.message);
+                new Notice('Failed to open email search modal.');
+            }
+        });
+
+        // Add command to fetch emails matching the Gmail query of each account; the queries used are shown per account
         this.addCommand({
             id: 'process-emails',
-            name: 'Process Emails with Label "Sent2Obsidian"',
+            name: 'Process Emails',
             callback: async () => {
-                try {
-                    if (!hasGoogleCredentials(this)) {
-                        new Notice('Google credentials not set up yet. Go to Settings to configure.');
-                        return;
-                    }
+                await this.processEmails();
+            },
+        });
 
-                    const vaultRoot = (this.app.vault.adapter as any).basePath; // Get the absolute path of the vault
-
-                    for (const account of GoogleAccount.getAllAccounts()) {
-                        if (!account.token) {
-                            new Notice(`No token found for account: ${account.accountName}`);
-                            continue;
-                        }
-
-                        const gmailService = await getGmailService({
-                            credentials: GoogleAccount.credentials,
-                            token: account.token,
-                        });
-
-                        const messages = await fetchEmailsWithLabelSubjects({
-                            service: gmailService,
-                            accountName: account.accountName,
-                        });
-
-						for (const { subject, messageId } of messages) {
-							try {
-								// Fetch the email content using the message ID
-								const email = await fetchEmailContent({ service: gmailService, messageId });
-						
-								// Extract the sender's email address and date from the email content
-								const from = email?.from || 'unknown';
-								const emailDate = email?.date ? new Date(email.date) : new Date(); // Use email date or fallback to current date
-						
-								// Format the date and time for the filename
-								const year = emailDate.getFullYear();
-								const month = String(emailDate.getMonth() + 1).padStart(2, '0'); // Months are 0-based
-								const day = String(emailDate.getDate()).padStart(2, '0');
-								const hours = String(emailDate.getHours()).padStart(2, '0');
-								const minutes = String(emailDate.getMinutes()).padStart(2, '0');
-								const seconds = String(emailDate.getSeconds()).padStart(2, '0');
-						
-								const datePart = `${year}${month}${day}`;
-								const timePart = `${hours}${minutes}${seconds}`;
-						
-								// Sanitize the subject and email address
-								const sanitizedSubject = removeInvalidFileNameChars(subject || 'Untitled');
-								const sanitizedEmail = removeInvalidFileNameChars(from);
-						
-								// Combine the parts to form the filename
-								const sanitizedFilename = `${datePart}_${timePart} - ${sanitizedEmail} -- ${sanitizedSubject}.htm`;
-						
-								// Prepare the email content
-								const emailContent = await prepareEmailContent(email, ''); // No need for a save path
-						
-								const subfolderStructure = this.settings!.subfolderStructure;
-						
-								const targetPath = saveFileToStack(
-									vaultRoot,
-									subfolderStructure,
-									sanitizedFilename,
-									emailContent
-								);
-								console.log(`Saved email to: ${targetPath}`);
-							} catch (error) {
-								const err = error as Error;
-								console.error(`Failed to process email: ${err.message}`);
-								new Notice(`Failed to process email: ${err.message}`);
-							}
-						}
-                    }
-                } catch (error) {
-                    const err = error as Error;
-                    console.error(`Error processing emails: ${err.message}`);
-                    new Notice(`Error processing emails: ${err.message}`);
-                }
+        // Add command to review the emails matching the Gmail query before importing them
+        this.addCommand({
+            id: 'preview-emails',
+            name: 'Preview Emails to Import',
+            callback: async () => {
+                await this.previewEmails();
+            },
+        });
+
+        this.addCommand({
+            id: 'show-email-import-report',
+            name: 'Show Last Email Import Report',
+            callback: () => {
+                this.showEmailImportReport();
+            },
+        });
+
+        // Add commands to import emails saved outside of Gmail, e.g. forwarded .eml files or a Google Takeout archive
+        this.addCommand({
+            id: 'import-eml-files',
+            name: 'Import Emails from .eml Files',
+            callback: async () => {
+                await this.importLocalEmails('.eml,message/rfc822', true);
+            },
+        });
+
+        this.addCommand({
+            id: 'import-mbox-archive',
+            name: 'Import Emails from .mbox Archive',
+            callback: async () => {
+                await this.importLocalEmails('.mbox,application/mbox', false);
+            },
+        });
+
+        // Add commands to manage the list of already imported emails
+        this.addCommand({
+            id: 'forget-imported-email',
+            name: 'Forget Imported Email',
+            callback: () => {
+                new ImportLedgerSuggestModal(this.app, this.ledger, 'it will be imported again on the next run', async (item) => {
+                    await this.ledger.forget([item.messageId]);
+                    new Notice(`Forgot "${item.subject}". It will be imported again the next time it matches the Gmail query.`);
+                }).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'reimport-email',
+            name: 'Re-import Email',
+            callback: () => {
+                new ImportLedgerSuggestModal(this.app, this.ledger, 'fetch it from Gmail and save it again', async (item) => {
+                    await this.reimportEmail(item);
+                }).open();
             },
         });
 
         GoogleAccount.loadAccountsFromStorage();
+
+        // Import emails in the background when enabled in the settings
+        this.emailScheduler.start();
     }
 
     onunload() {
         GoogleAccount.removeAllAccounts();
     }
 
+    async processEmails(options: EmailImportOptions = {}): Promise<EmailImportResult | undefined> {
+        if (!hasGoogleCredentials(this)) {
+            if (!options.silent) {
+                new Notice('Google credentials not set up yet. Go to Settings to configure.');
+            }
+            return;
+        }
+
+        if (this.emailImportRunning) {
+            if (!options.silent) {
+                new Notice('An email import is already running.');
+            }
+            return;
+        }
+
+        this.emailImportRunning = true;
+        let result: EmailImportResult;
+        try {
+            result = await runEmailImport(this, options);
+        } catch (error) {
+            const err = error as Error;
+            console.error(`Error processing emails: ${err.message}`);
+            if (!options.silent) {
+                new Notice(`Error processing emails: ${err.message}`);
+            }
+            const now = new Date().toISOString();
+            result = {
+                imported: 0,
+                failed: 1,
+                errors: [err.message],
+                accounts: [],
+                startedAt: now,
+                finishedAt: now,
+                background: options.silent,
+                runError: err.message,
+            };
+        } finally {
+            this.emailImportRunning = false;
+        }
+
+        this.lastEmailImportResult = result;
+        try {
+            await appendEmailImportLog(this, result);
+        } catch (error) {
+            const err = error as Error;
+            console.error(`Failed to write the email import log: ${err.message}`);
+        }
+        if (!options.silent) {
+            new EmailImportReportModal(this.app, result).open();
+        }
+        return result;
+    }
+
+    showEmailImportReport() {
+        if (!this.lastEmailImportResult) {
+            new Notice('No email import has run since Obsidian was started.');
+            return;
+        }
+        new EmailImportReportModal(this.app, this.lastEmailImportResult).open();
+    }
+
+    async syncContacts() {
+        if (!hasGoogleCredentials(this)) {
+            new Notice('Google credentials not set up yet. Go to Settings to configure.');
+            return;
+        }
+        if (this.contactSyncRunning) {
+            new Notice('A contact sync is already running.');
+            return;
+        }
+
+        this.contactSyncRunning = true;
+        const progress = new ProgressNotice('Syncing contacts...');
+        try {
+            const result = await syncContacts(this, {
+                onProgress: (message) => progress.setMessage(message),
+            });
+            result.errors.forEach((error) => console.error(error));
+            new Notice(
+                `Synced contacts: ${result.created} created, ${result.updated} updated` +
+                    (result.deleted > 0 ? `, ${result.deleted} deleted in Google (notes kept)` : '') +
+                    (result.errors.length > 0 ? `\n${result.errors.join('\n')}` : '')
+            );
+        } catch (error) {
+            const err = error as Error;
+            console.error(`Error syncing contacts: ${err.message}`);
+            new Notice(`Error syncing contacts: ${err.message}`);
+        } finally {
+            this.contactSyncRunning = false;
+            progress.hide();
+        }
+    }
+
+    async refreshContact() {
+        const file = this.app.workspace.getActiveFile();
+        const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+        const resourceName = frontmatter?.resourceName;
+        if (!file || typeof resourceName !== 'string' || !resourceName) {
+            new Notice('This note has no resourceName in its frontmatter. Create it with Insert Contact Info or Sync Contacts first.');
+            return;
+        }
+
+        // Notes without an account are looked up in every account
+        const accounts = GoogleAccount.getAllAccounts().filter(
+            (a) => a.token && (!frontmatter?.account || a.accountName === frontmatter.account)
+        );
+        if (accounts.length === 0) {
+            new Notice(`No token found for account: ${frontmatter?.account}`);
+            return;
+        }
+
+        let person: PersonResult | undefined;
+        let lastError: Error | undefined;
+        for (const account of accounts) {
+            try {
+                const service = await getPeopleService({ credentials: GoogleAccount.credentials, token: account.token! });
+                person = await fetchContact({ service, accountName: account.accountName }, resourceName);
+                break;
+            } catch (error) {
+                lastError = error as Error;
+            }
+        }
+        if (!person) {
+            console.error(`Failed to fetch contact ${resourceName}: ${lastError?.message}`);
+            new Notice(`Failed to fetch contact ${resourceName}: ${lastError?.message}`);
+            return;
+        }
+
+        const note = new Person(person, this.settings!.template_file_person, this.settings!.person_filename_format);
+        try {
+            note.setPhoto(await saveContactPhoto(this, person, getNoteName(person, note)));
+        } catch (error) {
+            console.error(`Failed to save the photo of ${resourceName}: ${(error as Error).message}`);
+        }
+        const content = await this.app.vault.read(file);
+        const updated = await getRefreshedPersonNote(this.app, content, note);
+        if (updated === content) {
+            new Notice(`${file.basename} is already up to date.`);
+            return;
+        }
+
+        new ContactRefreshModal(this.app, `Changes to ${file.basename}`, diffLines(content, updated), async () => {
+            try {
+                await this.app.vault.process(file, (data) => {
+                    if (data !== content) {
+                        throw new Error('the note was edited in the meantime. Run Refresh Contact again');
+                    }
+                    return updated;
+                });
+                new Notice(`Refreshed ${file.basename}`);
+            } catch (error) {
+                const err = error as Error;
+                console.error(`Failed to refresh ${file.path}: ${err.message}`);
+                new Notice(`Failed to refresh ${file.basename}: ${err.message}`);
+            }
+        }).open();
+    }
+
+    async previewEmails() {
+        if (!hasGoogleCredentials(this)) {
+            new Notice('Google credentials not set up yet. Go to Settings to configure.');
+            return;
+        }
+        if (this.emailImportRunning) {
+            new Notice('An email import is already running.');
+            return;
+        }
+
+        const progress = new ProgressNotice('Looking for emails to import...');
+        try {
+            const { pending, errors } = await fetchPendingEmails(this, {
+                onProgress: (message) => progress.setMessage(message),
+            });
+            errors.forEach((error) => console.error(error));
+
+            if (pending.every(({ emails }) => emails.length === 0)) {
+                new Notice(errors.length > 0 ? `No emails to import. ${errors.join('\n')}` : 'No new emails to import.');
+                return;
+            }
+            new EmailPreviewModal(this.app, this, pending, errors).open();
+        } catch (error) {
+            const err = error as Error;
+            console.error(`Error fetching emails: ${err.message}`);
+            new Notice(`Error fetching emails: ${err.message}`);
+        } finally {
+            progress.hide();
+        }
+    }
+
+    async importLocalEmails(accept: string, multiple: boolean) {
+        const files = await pickLocalFiles(accept, multiple);
+        if (files.length === 0) {
+            return;
+        }
+        if (this.emailImportRunning) {
+            new Notice('An email import is already running.');
+            return;
+        }
+
+        this.emailImportRunning = true;
+        const progress = new ProgressNotice(`Importing ${files.map((file) => file.name).join(', ')}...`);
+        try {
+            const result = await importEmailFiles(this, files, {
+                onProgress: (message) => progress.setMessage(message),
+            });
+            result.errors.forEach((error) => console.error(error));
+            new Notice(
+                `Imported ${result.imported} email(s), left out ${result.duplicates} already imported` +
+                    (result.failed > 0 ? `, ${result.failed} failed (see the developer console)` : '')
+            );
+        } catch (error) {
+            const err = error as Error;
+            console.error(`Error importing email files: ${err.message}`);
+            new Notice(`Error importing email files: ${err.message}`);
+        } finally {
+            this.emailImportRunning = false;
+            progress.hide();
+        }
+    }
+
+    async reimportEmail(item: EmailLedgerItem) {
+        if (item.importedFrom) {
+            new Notice(`"${item.subject}" was imported from ${item.importedFrom}. Forget it and import that file again instead.`);
+            return;
+        }
+
+        const account = GoogleAccount.getAllAccounts().find((a) => a.accountName === item.account);
+        if (!account?.token) {
+            new Notice(`No token found for account: ${item.account}`);
+            return;
+        }
+
+        try {
+            const gmailService = await getGmailService({
+                credentials: GoogleAccount.credentials,
+                token: account.token,
+            });
+            const email = await fetchEmailContent({ service: gmailService, messageId: item.messageId });
+            const file = this.settings!.email_group_threads
+                ? await importEmailThread({
+                      plugin: this,
+                      service: gmailService,
+                      accountName: account.accountName,
+                      threadId: email.threadId,
+                  })
+                : await importEmail({
+                      plugin: this,
+                      service: gmailService,
+                      accountName: account.accountName,
+                      email,
+                  });
+            new Notice(`Re-imported email to ${file.path}`);
+        } catch (error) {
+            const err = error as Error;
+            console.error(`Failed to re-import email ${item.messageId}: ${err.message}`);
+            new Notice(`Failed to re-import email: ${err.message}`);
+        }
+    }
+
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
         GoogleAccount.credentials = getGoogleCredentials(this);
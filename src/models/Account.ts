@@ -1,6 +1,7 @@
 import { GoogleCredentials } from '@/types';
 import { AuthModal } from '@/ui/auth-modal';
 import { calendar_v3 } from '@googleapis/calendar';
+import { gmail_v1 } from '@googleapis/gmail';
 import { people_v1 } from '@googleapis/people';
 import { App } from 'obsidian';
 
@@ -12,6 +13,7 @@ export class GoogleAccount {
 
 	#peopleService: people_v1.People | undefined;
 	#calendarService: calendar_v3.Calendar | undefined;
+	#gmailService: gmail_v1.Gmail | undefined;
 
 	static #allAccounts: Record<string, GoogleAccount> = {};
 
@@ -92,6 +94,14 @@ export class GoogleAccount {
 		return this.#calendarService;
 	}
 
+	set gmailService(service: gmail_v1.Gmail | undefined) {
+		this.#gmailService = service;
+	}
+
+	get gmailService() {
+		return this.#gmailService;
+	}
+
 	addToAccountsList() {
 		GoogleAccount.#allAccounts[this.#accountName] = this;
 	}
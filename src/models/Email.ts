@@ -0,0 +1,152 @@
+import {
+	DEFAULT_EMAIL_FILENAME_FORMAT,
+	DEFAULT_EMAIL_SUMMARY_TEMPLATE,
+	DEFAULT_EMAIL_TEMPLATE
+} from '@/settings/default-templates';
+import { EmailContent } from '@/types';
+import { removeInvalidFileNameChars } from '@/utils/files';
+import { getTemplateContents } from '@/utils/template';
+import { App, moment, stringifyYaml } from 'obsidian';
+
+export class Email {
+	#email: EmailContent;
+	#accountName: string;
+	#labelNames: string[];
+	#template: string | undefined;
+	#filenameTemplate: string | undefined;
+	#tags: string[];
+
+	constructor(
+		e: EmailContent,
+		accountName: string,
+		labelNames: string[],
+		templateFile: string | undefined,
+		filenameTemplate?: string,
+		tags: string[] = []
+	) {
+		this.#email = e;
+		this.#accountName = accountName;
+		this.#labelNames = labelNames;
+		this.#template = templateFile;
+		this.#filenameTemplate = filenameTemplate;
+		this.#tags = tags;
+	}
+
+	/**
+	 * Generate the note for this email: YAML frontmatter followed by the body template.
+	 * @param body - The email body, already converted to Markdown.
+	 * @param attachments - Vault paths of the attachments saved for this email.
+	 */
+	generateFromTemplate = async (app: App, { body, attachments }: { body: string; attachments: string[] }) => {
+		const rawTemplate = await getTemplateContents(app, this.#template);
+		const contents = this.applyTemplateTransformations(
+			rawTemplate && rawTemplate.length > 0 ? rawTemplate : DEFAULT_EMAIL_TEMPLATE,
+			body,
+			attachments
+		);
+		return `---\n${stringifyYaml(this.getFrontmatter())}---\n${contents.trimStart()}`;
+	};
+
+	/**
+	 * Generate a short summary of this email to insert into a note, e.g. sender, subject, snippet and link.
+	 * The template file given to the constructor is used as the summary template.
+	 */
+	generateSummaryFromTemplate = async (app: App) => {
+		const rawTemplate = await getTemplateContents(app, this.#template);
+		return this.applyTemplateTransformations(
+			rawTemplate && rawTemplate.length > 0 ? rawTemplate : DEFAULT_EMAIL_SUMMARY_TEMPLATE,
+			'',
+			[]
+		);
+	};
+
+	getGmailUrl() {
+		const { messageId, rfcMessageId } = this.#email;
+		// Emails read from .eml and .mbox files have no Gmail ID, so Gmail is searched for their Message-ID header instead
+		if (!/^[0-9a-f]+$/i.test(messageId)) {
+			return `https://mail.google.com/mail/u/0/#search/rfc822msgid:${encodeURIComponent(rfcMessageId ?? '')}`;
+		}
+		return `https://mail.google.com/mail/u/${encodeURIComponent(this.#accountName)}/#all/${messageId}`;
+	}
+
+	getFrontmatter(): Record<string, unknown> {
+		return {
+			from: this.#email.fromName ? `${this.#email.fromName} <${this.#email.from}>` : this.#email.from,
+			to: this.#email.to,
+			cc: this.#email.cc,
+			subject: this.#email.subject,
+			date: this.#email.date,
+			gmail_message_id: this.#email.messageId,
+			gmail_thread_id: this.#email.threadId,
+			labels: this.#labelNames,
+			account: this.#accountName,
+			...(this.#tags.length > 0 ? { tags: this.#tags } : {})
+		};
+	}
+
+	private applyTemplateTransformations = (rawTemplateContents: string, body: string, attachments: string[]): string => {
+		const now = moment();
+
+		const transform: Record<string, string | undefined> = {
+			subject: this.#email.subject,
+			from: this.#email.from,
+			fromName: this.#email.fromName,
+			to: this.#email.to.join(', '),
+			cc: this.#email.cc.join(', '),
+			sent: this.#email.date ? moment(this.#email.date).format('YYYY-MM-DD HH:mm') : '',
+			labels: this.#labelNames.join(', '),
+			account: this.#accountName,
+			messageId: this.#email.messageId,
+			threadId: this.#email.threadId,
+			snippet: this.#email.snippet,
+			link: this.getGmailUrl(),
+			attachments: attachments.map((a) => `[[${a}|${a.split('/').pop()}]]`).join(', '),
+			date: now.format('YYYY-MM-DD'),
+			time: now.format('HH:mm'),
+			body
+		};
+		const fields = new Map(Object.entries(transform).map(([k, v]) => [k.toLowerCase(), v]));
+
+		// every field is replaced in a single pass over the template, so that text inside the email is never treated as a
+		// template field; unknown fields are left as they are
+		return rawTemplateContents.replace(/{{\s*(\w+)\s*(?::([^}]+))?}}/g, (match, name: string, format?: string) => {
+			const key = name.toLowerCase();
+			if (format !== undefined) {
+				if (key !== 'sent') {
+					return match;
+				}
+				return this.#email.date ? moment(this.#email.date).format(format.trim()) : '';
+			}
+			return fields.has(key) ? fields.get(key) ?? '' : match;
+		});
+	};
+
+	/**
+	 * Get the file name for this email, without the extension, from the filename template.
+	 * Names longer than `maxLength` are shortened by cutting the subject first, so that the date and sender stay
+	 * intact, and then by cutting the end of the name.
+	 */
+	getFilename = (maxLength: number) => {
+		const format = this.#filenameTemplate && this.#filenameTemplate.length > 0 ? this.#filenameTemplate : DEFAULT_EMAIL_FILENAME_FORMAT;
+		const subject = this.#email.subject || 'Untitled';
+		const build = (subjectText: string) => {
+			const name = format.replace(/{{\s*subject\s*}}/gi, () => subjectText.replace(/[{}]/g, ''));
+			return removeInvalidFileNameChars(this.applyTemplateTransformations(name, '', []))
+				.replace(/\s+/g, ' ')
+				.trim()
+				.replace(/[.\s]+$/, '');
+		};
+
+		let filename = build(subject);
+		if (maxLength > 0 && filename.length > maxLength) {
+			const subjectLength = subject.length - (filename.length - maxLength) - 1;
+			if (subjectLength > 0) {
+				filename = build(`${subject.slice(0, subjectLength).trimEnd()}…`);
+			}
+			if (filename.length > maxLength) {
+				filename = `${filename.slice(0, maxLength - 1).trimEnd()}…`;
+			}
+		}
+		return filename || 'Untitled';
+	};
+}
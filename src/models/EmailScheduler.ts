@@ -0,0 +1,141 @@
+import GoogleLookupPlugin from '@/main';
+import { GoogleAccount } from '@/models/Account';
+import { EmailImportResult } from '@/types';
+import { moment } from 'obsidian';
+
+// How often the scheduler checks whether an import is due
+const CHECK_INTERVAL_MS = 60 * 1000;
+// Longest wait between runs after repeated failures
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Runs the email import in the background at the configured interval.
+ * Runs are skipped while an import is already running and during quiet hours, and the wait between runs doubles
+ * after every failed run so that a broken account does not keep retrying every few minutes.  A run only counts as
+ * failed when the whole run or an account stopped, e.g. on a login, network or quota error; emails that fail on their
+ * own are retried at the usual interval.
+ * The timer and status bar item are registered with the plugin, so they are removed when the plugin unloads.
+ */
+export class EmailScheduler {
+	#plugin: GoogleLookupPlugin;
+	#statusBarEl: HTMLElement | undefined;
+	#lastRunAt: Date | undefined;
+	#lastResult: EmailImportResult | undefined;
+	#nextRunAt: Date | undefined;
+	#failures = 0;
+
+	constructor(plugin: GoogleLookupPlugin) {
+		this.#plugin = plugin;
+	}
+
+	start() {
+		this.#statusBarEl = this.#plugin.addStatusBarItem();
+		this.#statusBarEl.addClass('mod-clickable');
+		this.#statusBarEl.onClickEvent(() => this.#plugin.showEmailImportReport());
+		this.#plugin.registerInterval(window.setInterval(() => this.tick(), CHECK_INTERVAL_MS));
+		this.updateStatusBar();
+	}
+
+	private get enabled() {
+		return !!this.#plugin.settings?.email_schedule_enabled;
+	}
+
+	private get intervalMs() {
+		const minutes = Math.max(this.#plugin.settings?.email_schedule_interval_minutes || 30, 1);
+		return minutes * 60 * 1000;
+	}
+
+	/**
+	 * Accounts without a setting of their own are included in the scheduled import.
+	 */
+	private getScheduledAccountNames(): string[] {
+		const enabledAccounts = this.#plugin.settings?.email_schedule_accounts ?? {};
+		return GoogleAccount.getAllAccounts()
+			.map((account) => account.accountName)
+			.filter((accountName) => enabledAccounts[accountName] !== false);
+	}
+
+	async tick() {
+		if (!this.enabled || this.#plugin.emailImportRunning) {
+			this.updateStatusBar();
+			return;
+		}
+		if (this.#nextRunAt && this.#nextRunAt > new Date()) {
+			return;
+		}
+		if (isInQuietHours(new Date(), this.#plugin.settings?.email_quiet_hours_start, this.#plugin.settings?.email_quiet_hours_end)) {
+			return;
+		}
+
+		const accountNames = this.getScheduledAccountNames();
+		if (accountNames.length === 0) {
+			this.#nextRunAt = new Date(Date.now() + this.intervalMs);
+			return;
+		}
+
+		const result = await this.#plugin.processEmails({ accountNames, silent: true });
+		if (!result) {
+			// The import did not run, e.g. because a manual import started in the meantime
+			return;
+		}
+
+		this.#lastRunAt = new Date();
+		this.#lastResult = result;
+		const runFailed = !!result.runError || result.accounts.some((report) => !!report.accountError);
+		this.#failures = runFailed ? this.#failures + 1 : 0;
+		if (result.errors.length > 0) {
+			console.warn(`Scheduled email import finished with errors:\n${result.errors.join('\n')}`);
+		}
+
+		const delay = Math.min(this.intervalMs * 2 ** this.#failures, Math.max(MAX_BACKOFF_MS, this.intervalMs));
+		this.#nextRunAt = new Date(this.#lastRunAt.getTime() + delay);
+		this.updateStatusBar();
+	}
+
+	updateStatusBar() {
+		if (!this.#statusBarEl) {
+			return;
+		}
+		this.#statusBarEl.toggle(this.enabled);
+		if (!this.enabled) {
+			return;
+		}
+
+		let text = 'Email import: waiting';
+		if (this.#lastRunAt && this.#lastResult) {
+			const time = moment(this.#lastRunAt).format('HH:mm');
+			const { imported, failed } = this.#lastResult;
+			text = `Email import: ${time}, ${imported} imported` + (failed > 0 ? `, ${failed} failed` : '');
+		}
+		this.#statusBarEl.setText(text);
+
+		const tooltip = [
+			this.#nextRunAt ? `Next run at ${moment(this.#nextRunAt).format('HH:mm')}` : 'Next run within a minute',
+			...(this.#failures > 0 ? [`Retrying less often after ${this.#failures} failed run(s)`] : []),
+			...(this.#lastResult?.errors.slice(0, 3) ?? []),
+			...(this.#lastResult ? ['Click to show the report of the last run'] : [])
+		];
+		this.#statusBarEl.setAttr('aria-label', tooltip.join('\n'));
+	}
+}
+
+/**
+ * Check whether a time falls between the start and end of the quiet hours, both given as HH:mm.
+ * The quiet hours may wrap past midnight, e.g. 22:00 to 07:00.
+ */
+export const isInQuietHours = (date: Date, start?: string, end?: string): boolean => {
+	const toMinutes = (value?: string) => {
+		const match = value?.trim().match(/^(\d{1,2}):(\d{2})$/);
+		return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+	};
+	const startMinutes = toMinutes(start);
+	const endMinutes = toMinutes(end);
+	if (startMinutes === undefined || endMinutes === undefined || startMinutes === endMinutes) {
+		return false;
+	}
+
+	const minutes = date.getHours() * 60 + date.getMinutes();
+	return startMinutes < endMinutes
+		? minutes >= startMinutes && minutes < endMinutes
+		: minutes >= startMinutes || minutes < endMinutes;
+};
@@ -0,0 +1,78 @@
+import GoogleLookupPlugin from '@/main';
+import { EmailLedgerEntry } from '@/types';
+
+export type EmailLedgerItem = { messageId: string } & EmailLedgerEntry;
+
+/**
+ * Keeps track of the Gmail messages that have already been imported into the vault.
+ * Entries are stored with the plugin data so they survive restarts.
+ */
+export class ImportLedger {
+	#plugin: GoogleLookupPlugin;
+
+	constructor(plugin: GoogleLookupPlugin) {
+		this.#plugin = plugin;
+	}
+
+	private get entries(): Record<string, EmailLedgerEntry> {
+		return this.#plugin.settings?.email_import_ledger ?? {};
+	}
+
+	has(messageId: string) {
+		return messageId in this.entries;
+	}
+
+	get(messageId: string): EmailLedgerEntry | undefined {
+		return this.entries[messageId];
+	}
+
+	getAll(): EmailLedgerItem[] {
+		return Object.entries(this.entries)
+			.map(([messageId, entry]) => ({ messageId, ...entry }))
+			.sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+	}
+
+	async record(messageId: string, entry: EmailLedgerEntry) {
+		this.#plugin.settings!.email_import_ledger = { ...this.entries, [messageId]: entry };
+		await this.#plugin.saveSettings();
+	}
+
+	async recordAll(entries: Record<string, EmailLedgerEntry>) {
+		this.#plugin.settings!.email_import_ledger = { ...this.entries, ...entries };
+		await this.#plugin.saveSettings();
+	}
+
+	// Get the note that a Gmail thread was imported into
+	findThread(threadId: string): EmailLedgerEntry | undefined {
+		return Object.values(this.entries).find((entry) => entry.threadId === threadId);
+	}
+
+	// Check whether other emails were saved to the same file as an email, e.g. because they were appended to it
+	isSharedPath(filePath: string, messageId: string): boolean {
+		return Object.entries(this.entries).some(([id, entry]) => id !== messageId && entry.path === filePath);
+	}
+
+	// Get the IDs and Message-ID headers of every recorded email, to recognize them in .eml and .mbox files
+	getImportedMessageIds(): Set<string> {
+		const ids = new Set(Object.keys(this.entries));
+		Object.values(this.entries).forEach((entry) => entry.rfcMessageId && ids.add(entry.rfcMessageId));
+		return ids;
+	}
+
+	// Mark emails whose Gmail actions were only previewed, or clear the mark once the actions have been applied
+	async setActionsPending(messageIds: string[], actionsPending: boolean) {
+		const entries = { ...this.entries };
+		for (const messageId of messageIds.filter((id) => id in entries)) {
+			entries[messageId] = { ...entries[messageId], actionsPending: actionsPending || undefined };
+		}
+		this.#plugin.settings!.email_import_ledger = entries;
+		await this.#plugin.saveSettings();
+	}
+
+	async forget(messageIds: string[]) {
+		this.#plugin.settings!.email_import_ledger = Object.fromEntries(
+			Object.entries(this.entries).filter(([messageId]) => !messageIds.includes(messageId))
+		);
+		await this.#plugin.saveSettings();
+	}
+}
@@ -1,12 +1,13 @@
 import { DEFAULT_PERSON_FILENAME_FORMAT, DEFAULT_PERSON_TEMPLATE } from '@/settings/default-templates';
 import { PersonAddress, PersonResult } from '@/types';
 import { getTemplateContents } from '@/utils/template';
-import { App, moment } from 'obsidian';
+import { App, moment, TFile } from 'obsidian';
 
 export class Person {
 	#person: PersonResult;
 	#template: string | undefined;
 	#filenameTemplate: string | undefined;
+	#photo: TFile | undefined;
 
 	constructor(p: PersonResult, templateFile: string | undefined, filenameTemplate: string | undefined) {
 		this.#person = p;
@@ -21,6 +22,27 @@ export class Person {
 		);
 	};
 
+	/**
+	 * Get the frontmatter that the contact sync keeps up to date in person notes.  `resourceName` identifies the contact,
+	 * so that later syncs find the note again.  Keys without a value are left out of the note.
+	 */
+	getFrontmatter(): Record<string, string | string[] | undefined> {
+		const values = (list: (string | null | undefined)[] | undefined) => (list ?? []).filter((v): v is string => !!v);
+		return {
+			resourceName: this.#person.resourceName ?? undefined,
+			account: this.#person.accountSource,
+			emails: values(this.#person.emails),
+			phones: values(this.#person.phones),
+			organization: this.#person.org?.name || undefined,
+			jobTitle: this.#person.org?.title || undefined
+		};
+	}
+
+	// Set the downloaded photo of the contact, which the template embeds with {{photo}}
+	setPhoto(photo: TFile | undefined) {
+		this.#photo = photo;
+	}
+
 	getContactUrl() {
 		if (!this.#person.resourceName) {
 			return 'unknown';
@@ -29,6 +51,17 @@ export class Person {
 		return this.#person.resourceName.replace('people/', 'https://contacts.google.com/person/');
 	}
 
+	// Turn a contact group name into a tag, e.g. "Book Club" into "#group/book-club"
+	private toGroupTag = (name: string): string => {
+		const tag = name
+			.toLowerCase()
+			.replace(/[\s/]+/g, '-')
+			.replace(/[#,.;:!?'"()[\]{}<>&*+=|\\@$%^~`]/g, '')
+			.replace(/-{2,}/g, '-')
+			.replace(/^-|-$/g, '');
+		return tag ? `#group/${tag}` : '';
+	};
+
 	private transformAddress = (a: Partial<PersonAddress> | null | undefined): string => {
 		if (a == null) {
 			return '';
@@ -50,7 +83,15 @@ export class Person {
 			firstLast: `${this.#person.firstName}${this.#person.lastName}` || '',
 			lastFirst: `${this.#person.lastName}${this.#person.firstName}` || '',
 			nicknames: this.#person.nicknames?.map((n) => `${n?.value}`).join(', ') || '',
-			contactGroups: this.#person.contactGroupMembership?.map((g) => `${g?.replace('contactGroups/', '')}`) || '',
+			contactGroups:
+				this.#person.contactGroups?.map((g) => g.name) ||
+				this.#person.contactGroupMembership?.map((g) => `${g?.replace('contactGroups/', '')}`) ||
+				'',
+			groupTags:
+				this.#person.contactGroups
+					?.map((g) => this.toGroupTag(g.name))
+					.filter((t) => t.length > 0)
+					.join(' ') || '',
 			addresses: this.#person.addresses?.map((a) => `${this.transformAddress(a)}`).join('\n') || '',
 			emails: this.#person.emails?.join(', ') || '',
 			phones: this.#person.phones?.join(', ') || '',
@@ -60,12 +101,15 @@ export class Person {
 			'org.name': this.#person.org?.name || '',
 			type: this.#person.type,
 			link: this.getContactUrl(),
+			resourceName: this.#person.resourceName ?? '',
+			account: this.#person.accountSource,
 			source: this.#person.accountSource.toLocaleLowerCase(),
 			urls: this.#person.urls?.map((u) => `${u?.type}: ${u?.value}`).join(', ') || '',
 			relations: this.#person.relations?.map((r) => `${r?.type}: ${r?.person}`).join(', ') || '',
 			clientData: this.#person.clientData?.map((c) => `${c?.key}: ${c?.value}`).join(', ') || '',
 			userData: this.#person.userDefinedData?.map((c) => `${c?.key}: ${c?.value}`).join(', ') || '',
 			bio: this.#person.bio ?? '',
+			photo: this.#photo ? `![[${this.#photo.path}]]` : '',
 			json: JSON.stringify(this.#person, null, 2)
 		};
 
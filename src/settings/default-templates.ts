@@ -1,13 +1,16 @@
 export const DEFAULT_PERSON_FILENAME_FORMAT = '{{lastname}}, {{firstname}}';
+export const DEFAULT_EMAIL_FILENAME_FORMAT = '{{sent:YYYYMMDD_HHmmss}} - {{from}} -- {{subject}}';
 
-export const DEFAULT_PERSON_TEMPLATE = `
----
+export const DEFAULT_PERSON_TEMPLATE = `---
 aliases: ["{{lastfirst}}", "{{firstlast}}", "{{firstname}}.{{lastname}}", {{emails}}]
 created: ["{{date}} {{time}}"]
+resourceName: "{{resourceName}}"
+account: "{{account}}"
 ---
 # {{firstname}} {{lastname}}
 #person #person/{{source}}
 
+%% google-lookup:start %%
 {{org.title}} {{org.department}}
 
 ----
@@ -18,6 +21,7 @@ Email: {{emails}}
 Phone: {{phones}}
 
 [open in Google Contacts]({{link}})
+%% google-lookup:end %%
 
 
 ----
@@ -34,3 +38,22 @@ export const DEFAULT_EVENT_TEMPLATE = `
 * organizer {{organizer}}  
 * {{attendees}}  
 `;
+export const DEFAULT_EMAIL_TEMPLATE = `
+# {{subject}}
+
+**From:** {{fromName}} <{{from}}>
+**To:** {{to}}
+**Cc:** {{cc}}
+**Sent:** {{sent}}
+**Attachments:** {{attachments}}
+
+[Open in Gmail]({{link}})
+
+----
+
+{{body}}
+`;
+export const DEFAULT_EMAIL_SUMMARY_TEMPLATE = `
+**{{subject}}** from {{fromName}} <{{from}}>, {{sent}} - [Open in Gmail]({{link}})
+> {{snippet}}
+`;
@@ -0,0 +1,40 @@
+import GoogleLookupPlugin from '@/main';
+import { EmailPostImportActions } from '@/types';
+
+export const DEFAULT_EMAIL_QUERY = 'label:Send2Obsidian';
+
+/**
+ * Get the Gmail search query used when importing emails for an account.
+ * Falls back to the default query when the account has no query of its own.
+ */
+export const getEmailQuery = (plugin: GoogleLookupPlugin, accountName: string): string => {
+    const { email_query, email_account_queries } = plugin.settings!;
+
+    const accountQuery = email_account_queries?.[accountName]?.trim();
+    if (accountQuery) {
+        return accountQuery;
+    }
+
+    return email_query?.trim() || DEFAULT_EMAIL_QUERY;
+};
+
+/**
+ * Build a Gmail search query that matches a label name.  Gmail requires quotes around label names with spaces.
+ */
+export const labelToQuery = (labelName: string): string => {
+    return /\s/.test(labelName) ? `label:"${labelName}"` : `label:${labelName}`;
+};
+
+/**
+ * Get the Gmail actions that run on each message after it has been saved to the vault.
+ */
+export const getPostImportActions = (plugin: GoogleLookupPlugin): EmailPostImportActions => {
+    const settings = plugin.settings!;
+
+    return {
+        removeQueryLabels: !!settings.email_remove_query_label,
+        addLabel: settings.email_processed_label ?? '',
+        archive: !!settings.email_archive_after_import,
+        markRead: !!settings.email_mark_read_after_import,
+    };
+};
@@ -1,16 +1,62 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, TextComponent } from 'obsidian';
 import GoogleLookupPlugin from '@/main';
-import { GoogleLookupPluginSettings, KeysMatching } from '@/types';
+import {
+    EmailFilenameCollision,
+    EmailFormat,
+    EmailRoutingRule,
+    GoogleLookupPluginSettings,
+    KeysMatching,
+    RemoteImageMode,
+} from '@/types';
 import { GoogleAccount } from '@/models/Account';
 import { AuthModal } from '@/ui/auth-modal';
 import { ConfirmModal } from '@/ui/confirm-modal';
+import { fetchGmailLabels, getGmailService } from '@/api/google/gmail';
+import { DEFAULT_EMAIL_QUERY, labelToQuery } from './email';
+import { DEFAULT_EMAIL_FILENAME_FORMAT } from './default-templates';
+import { createEmptyRule, EmailRuleSample } from '@/utils/email-rules';
+import { previewEmailRouting } from '@/utils/email-import';
 
 export const DEFAULT_SETTINGS: Partial<GoogleLookupPluginSettings> = {
     client_redirect_uri_port: 42601,
     folder_person: '',
     rename_person_file: true,
+    contacts_sync_folder: 'People',
+    contacts_sync_group: '',
+    contacts_sync_state: {},
+    contacts_group_folders: [],
+    contact_photos_folder: 'People/Photos',
+    contact_photos: {},
     emailStorageFolder: '_Inbox', // Default folder for storing emails
     subfolderStructure: 'YYYY/YYYY-MM', // Default subfolder structure
+    email_query: DEFAULT_EMAIL_QUERY,
+    email_account_queries: {},
+    email_remove_query_label: false,
+    email_processed_label: '',
+    email_archive_after_import: false,
+    email_mark_read_after_import: false,
+    email_actions_dry_run: false,
+    email_import_ledger: {},
+    email_format: 'html',
+    email_group_threads: false,
+    email_filename_format: DEFAULT_EMAIL_FILENAME_FORMAT,
+    email_filename_max_length: 120,
+    email_filename_collision: 'suffix',
+    email_routing_rules: [],
+    email_download_attachments: false,
+    email_attachment_folder: 'attachments',
+    email_attachment_mime_types: '',
+    email_attachment_max_size_mb: 10,
+    email_remote_images: 'download',
+    email_plain_reading: false,
+    email_incremental_sync: true,
+    email_sync_state: {},
+    email_schedule_enabled: false,
+    email_schedule_interval_minutes: 30,
+    email_schedule_accounts: {},
+    email_quiet_hours_start: '',
+    email_quiet_hours_end: '',
+    email_import_log_note: '',
 };
 
 type CommonSettingParams = {
@@ -32,11 +78,21 @@ type NumberInputSettingParams = {
 export class GoogleLookupSettingTab extends PluginSettingTab {
     plugin: GoogleLookupPlugin;
     accountsEl: HTMLElement;
+    emailQueriesEl: HTMLElement;
+    emailScheduleAccountsEl: HTMLElement;
+    emailRulesEl: HTMLElement;
+    contactGroupFoldersEl: HTMLElement;
+    // Shows the rule test result again, e.g. after the rules changed
+    updateEmailRuleTest: (() => void) | undefined;
 
     constructor(app: App, plugin: GoogleLookupPlugin) {
         super(app, plugin);
         this.plugin = plugin;
         this.accountsEl = document.createElement('div'); // Initialize accountsEl
+        this.emailQueriesEl = document.createElement('div');
+        this.emailScheduleAccountsEl = document.createElement('div');
+        this.emailRulesEl = document.createElement('div');
+        this.contactGroupFoldersEl = document.createElement('div');
 
         console.log('GoogleLookupSettingTab initialized'); // Debugging log
     }
@@ -45,6 +101,7 @@ export class GoogleLookupSettingTab extends PluginSettingTab {
         const { containerEl } = this;
 
         containerEl.empty();
+        this.updateEmailRuleTest = undefined;
 
         if (!this.plugin.settings) {
             console.warn('Settings object is undefined.');
@@ -62,11 +119,235 @@ export class GoogleLookupSettingTab extends PluginSettingTab {
 
         this.insertTextInputSetting({
             name: 'Subfolder Structure',
-            description: 'Structure for organizing emails (e.g., YYYY/YYYY-MM).',
+            description:
+                'Folders inside the storage folder, built from the email date with moment.js tokens (YYYY, MM, DD, ww, MMMM...) and the fields {{account}}, {{label}} and {{from}}, e.g. "YYYY/YYYY-MM/{{account}}". Wrap other text in square brackets, e.g. "YYYY/[Week] ww".',
             placeholder: 'YYYY/YYYY-MM',
             key: 'subfolderStructure'
         });
 
+        this.insertTextInputSetting({
+            name: 'Email Filename Format',
+            description:
+                'Name of the email files. Use {{sent:FORMAT}} for the date the email was sent in any moment.js format, {{from}}, {{fromName}}, {{subject}}, {{threadId}} and the other email template fields.',
+            placeholder: DEFAULT_EMAIL_FILENAME_FORMAT,
+            key: 'email_filename_format'
+        });
+
+        this.insertNumberInputSetting({
+            name: 'Maximum filename length',
+            description: 'Longer names are shortened, cutting the subject first. 0 means no limit.',
+            key: 'email_filename_max_length'
+        });
+
+        new Setting(containerEl)
+            .setName('When a file with the same name exists')
+            .setDesc('Save the email under a name with a number added, or append it to the end of the existing file.')
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOption('suffix', 'Add a number to the name')
+                    .addOption('append', 'Append to the existing file')
+                    .setValue(this.plugin.settings!.email_filename_collision || 'suffix')
+                    .onChange(async (v) => {
+                        this.plugin.settings!.email_filename_collision = v as EmailFilenameCollision;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        containerEl.createEl('h4', { text: 'Routing Rules' });
+        containerEl.createEl('p', {
+            text: 'Rules are checked from top to bottom, and the first enabled rule that matches an email decides where and how it is saved. Empty conditions match any email. Empty actions keep the settings above.',
+            cls: 'setting-item-description'
+        });
+        this.displayEmailRules();
+        containerEl.appendChild(this.emailRulesEl);
+        this.insertEmailRuleTest();
+
+        new Setting(containerEl)
+            .setName('Email Format')
+            .setDesc('Save emails as the original HTML (.htm) or convert them to Markdown notes (.md) with frontmatter.')
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOption('html', 'HTML')
+                    .addOption('markdown', 'Markdown')
+                    .setValue(this.plugin.settings!.email_format || 'html')
+                    .onChange(async (v) => {
+                        this.plugin.settings!.email_format = v as EmailFormat;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        this.insertTextInputSetting({
+            name: 'Email Summary Template',
+            description: getDocumentFragmentWithLink(
+                'File containing the template for the summary inserted by the Insert Email command. Default template and more info',
+                'available here',
+                'https://ntawileh.github.io/obsidian-google-lookup/email'
+            ),
+            placeholder: '_assets/templates/t_email_summary',
+            key: 'template_file_email_summary'
+        });
+
+        this.insertToggleSetting({
+            name: 'Import whole threads',
+            description:
+                'Save each Gmail conversation as one file with all of its messages in order, instead of one file per email. The file is updated when more emails of the thread are imported later.',
+            key: 'email_group_threads'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Email Template',
+            description: getDocumentFragmentWithLink(
+                'File containing the body template for emails saved as Markdown. Default template and more info',
+                'available here',
+                'https://ntawileh.github.io/obsidian-google-lookup/email'
+            ),
+            placeholder: '_assets/templates/t_email',
+            key: 'template_file_email'
+        });
+
+        new Setting(containerEl)
+            .setName('Remote images')
+            .setDesc(
+                'What to do with images that are loaded from the web. Inline images sent with the email are always saved to the attachment folder.'
+            )
+            .addDropdown((dropdown) => {
+                dropdown
+                    .addOption('download', 'Download to the attachment folder')
+                    .addOption('link', 'Keep as links')
+                    .addOption('remove', 'Remove')
+                    .setValue(this.plugin.settings!.email_remote_images || 'download')
+                    .onChange(async (v) => {
+                        this.plugin.settings!.email_remote_images = v as RemoteImageMode;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        this.insertToggleSetting({
+            name: 'Plain reading mode',
+            description:
+                'Keep the headings, paragraphs, lists and data tables of HTML emails, but drop the tables that only lay out the email and all inline styles.',
+            key: 'email_plain_reading'
+        });
+
+        this.insertToggleSetting({
+            name: 'Download attachments',
+            description: 'Save email attachments to the vault and link them from the imported email.',
+            key: 'email_download_attachments'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Attachment folder',
+            description: 'Folder for attachments, relative to the folder of the imported email. Leave empty to save attachments next to the email.',
+            placeholder: 'attachments',
+            key: 'email_attachment_folder'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Attachment types',
+            description: 'Comma-separated MIME types of attachments to save, e.g. "application/pdf, image/*". Leave empty to save all types.',
+            placeholder: 'application/pdf, image/*',
+            key: 'email_attachment_mime_types'
+        });
+
+        this.insertNumberInputSetting({
+            name: 'Maximum attachment size (MB)',
+            description: 'Attachments larger than this are not saved. Use 0 for no limit.',
+            key: 'email_attachment_max_size_mb'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Gmail Query',
+            description:
+                'Default Gmail search query used to find emails to import. Any Gmail search syntax works, e.g. "label:Send2Obsidian" or "from:someone@example.com newer_than:7d".',
+            placeholder: DEFAULT_EMAIL_QUERY,
+            key: 'email_query'
+        });
+
+        this.displayEmailAccountSettings();
+        this.containerEl.appendChild(this.emailQueriesEl);
+
+        this.insertToggleSetting({
+            name: 'Incremental sync',
+            description:
+                'When the Gmail query is a single label (e.g. "label:Send2Obsidian"), only look at emails that had the label added since the last run instead of running the whole query again.',
+            key: 'email_incremental_sync'
+        });
+
+        this.insertToggleSetting({
+            name: 'Remove query label after import',
+            description: 'After an email is saved, remove the labels used in the Gmail query (e.g. "label:Send2Obsidian") from it.',
+            key: 'email_remove_query_label'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Processed label',
+            description: 'After an email is saved, add this Gmail label to it. The label is created if it does not exist. Leave empty to add no label.',
+            placeholder: 'Obsidian/Imported',
+            key: 'email_processed_label'
+        });
+
+        this.insertToggleSetting({
+            name: 'Archive after import',
+            description: 'After an email is saved, remove it from the Gmail inbox.',
+            key: 'email_archive_after_import'
+        });
+
+        this.insertToggleSetting({
+            name: 'Mark read after import',
+            description: 'After an email is saved, mark it as read in Gmail.',
+            key: 'email_mark_read_after_import'
+        });
+
+        this.insertToggleSetting({
+            name: 'Preview Gmail actions only',
+            description:
+                'When enabled, the actions above are not applied. Emails are still imported, and the actions that would have run are shown in a notice and logged to the developer console. They are applied to those emails by the first import after this is turned off.',
+            key: 'email_actions_dry_run'
+        });
+
+        new Setting(containerEl)
+            .setName('Import in the background')
+            .setDesc(
+                'Run the email import on a schedule while Obsidian is open. Background runs show no notices; the status bar shows the time and result of the last run.'
+            )
+            .addToggle((tc) => {
+                tc.setValue(this.plugin.settings!.email_schedule_enabled).onChange(async (v) => {
+                    this.plugin.settings!.email_schedule_enabled = v;
+                    await this.plugin.saveSettings();
+                    this.plugin.emailScheduler.updateStatusBar();
+                });
+            });
+
+        this.insertNumberInputSetting({
+            name: 'Background import interval (minutes)',
+            description: 'Minutes between background imports. After a failed run the wait doubles each time, up to 6 hours.',
+            key: 'email_schedule_interval_minutes'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Quiet hours start',
+            description: 'No background imports run from this time (HH:mm) until the end of the quiet hours. Leave empty to run at any time.',
+            placeholder: '22:00',
+            key: 'email_quiet_hours_start'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Quiet hours end',
+            description: 'Background imports resume at this time (HH:mm).',
+            placeholder: '07:00',
+            key: 'email_quiet_hours_end'
+        });
+
+        this.containerEl.appendChild(this.emailScheduleAccountsEl);
+
+        this.insertTextInputSetting({
+            name: 'Import log note',
+            description:
+                'Note that a report of every email import is added to, including background runs that found emails or had errors. Leave empty to only show the report after imports run from the command palette.',
+            placeholder: 'Email/Import Log',
+            key: 'email_import_log_note'
+        });
+
         containerEl.createEl('h3', { text: 'Contact Info' });
         this.insertTextInputSetting({
             name: 'Contact Template',
@@ -102,6 +383,38 @@ export class GoogleLookupSettingTab extends PluginSettingTab {
             key: 'person_filename_format'
         });
 
+        this.insertTextInputSetting({
+            name: 'Contact sync folder',
+            description:
+                'Folder that the Sync Contacts command creates person notes in. Notes that are moved elsewhere are still found by the resourceName in their frontmatter.',
+            placeholder: 'People',
+            key: 'contacts_sync_folder'
+        });
+
+        this.insertTextInputSetting({
+            name: 'Contact sync group',
+            description:
+                'Only sync the contacts in this contact group (label), by name or ID, e.g. "Family". Leave empty to sync all saved contacts.',
+            placeholder: 'Family',
+            key: 'contacts_sync_group'
+        });
+
+        containerEl.createEl('h4', { text: 'Contact Group Folders' });
+        containerEl.createEl('p', {
+            text: 'New person notes of contacts in these contact groups (by name or ID) are created in the given folder instead of the contact sync folder or the folder for people notes. The first group that a contact belongs to decides.',
+            cls: 'setting-item-description'
+        });
+        this.displayContactGroupFolders();
+        containerEl.appendChild(this.contactGroupFoldersEl);
+
+        this.insertTextInputSetting({
+            name: 'Contact photo folder',
+            description:
+                'Folder that contact photos are downloaded to when a person note is created or updated. Leave empty to not download photos.',
+            placeholder: 'People/Photos',
+            key: 'contact_photos_folder'
+        });
+
         containerEl.createEl('h3', { text: 'Events Info' });
         this.insertTextInputSetting({
             name: 'Event Template',
@@ -169,11 +482,273 @@ export class GoogleLookupSettingTab extends PluginSettingTab {
             b.onClick(() => {
                 GoogleAccount.createNewAccount(this.plugin.app, () => {
                     this.displayAccounts();
+                    this.displayEmailAccountSettings();
+                });
+            });
+        });
+    }
+
+    private displayEmailRules() {
+        const { emailRulesEl } = this;
+        emailRulesEl.empty();
+
+        const rules = this.plugin.settings!.email_routing_rules ?? [];
+        rules.forEach((rule, index) => this.insertEmailRuleSetting(rule, index, rules.length));
+        this.updateEmailRuleTest?.();
+
+        new Setting(emailRulesEl).addButton((b) => {
+            b.setButtonText('Add Rule');
+            b.onClick(async () => {
+                this.plugin.settings!.email_routing_rules = [...rules, createEmptyRule()];
+                await this.plugin.saveSettings();
+                this.displayEmailRules();
+            });
+        });
+    }
+
+    private insertEmailRuleSetting(rule: EmailRoutingRule, index: number, ruleCount: number) {
+        const saveRule = async (changes: Partial<EmailRoutingRule>) => {
+            Object.assign(rule, changes);
+            await this.plugin.saveSettings();
+            this.updateEmailRuleTest?.();
+        };
+        const moveRule = async (offset: number) => {
+            const rules = [...this.plugin.settings!.email_routing_rules];
+            rules.splice(index, 1);
+            rules.splice(index + offset, 0, rule);
+            this.plugin.settings!.email_routing_rules = rules;
+            await this.plugin.saveSettings();
+            this.displayEmailRules();
+        };
+        const addRuleText = (setting: Setting, key: KeysMatching<EmailRoutingRule, string>, placeholder: string) => {
+            setting.addText((text) => {
+                text.setPlaceholder(placeholder)
+                    .setValue(rule[key])
+                    .onChange(async (v) => {
+                        await saveRule({ [key]: v });
+                    });
+            });
+        };
+
+        new Setting(this.emailRulesEl)
+            .setName(`Rule ${index + 1}`)
+            .setHeading()
+            .addText((text) => {
+                text.setPlaceholder('Rule name')
+                    .setValue(rule.name)
+                    .onChange(async (v) => {
+                        await saveRule({ name: v });
+                    });
+            })
+            .addToggle((tc) => {
+                tc.setTooltip('Enable this rule')
+                    .setValue(rule.enabled)
+                    .onChange(async (v) => {
+                        await saveRule({ enabled: v });
+                    });
+            })
+            .addExtraButton((b) => {
+                b.setIcon('arrow-up');
+                b.setTooltip('move rule up');
+                b.setDisabled(index === 0);
+                b.onClick(() => moveRule(-1));
+            })
+            .addExtraButton((b) => {
+                b.setIcon('arrow-down');
+                b.setTooltip('move rule down');
+                b.setDisabled(index === ruleCount - 1);
+                b.onClick(() => moveRule(1));
+            })
+            .addExtraButton((b) => {
+                b.setIcon('trash');
+                b.setTooltip('remove rule');
+                b.onClick(async () => {
+                    this.plugin.settings!.email_routing_rules = this.plugin.settings!.email_routing_rules.filter((r) => r !== rule);
+                    await this.plugin.saveSettings();
+                    this.displayEmailRules();
+                });
+            });
+
+        const conditions = new Setting(this.emailRulesEl)
+            .setName('When')
+            .setDesc('Sender addresses or domains (comma-separated), subject regular expression, Gmail label and account.');
+        addRuleText(conditions, 'from', 'someone@example.com, example.org');
+        addRuleText(conditions, 'subject', '^(Invoice|Receipt)');
+        addRuleText(conditions, 'label', 'Receipts');
+        addRuleText(conditions, 'account', 'Account name');
+
+        const actions = new Setting(this.emailRulesEl)
+            .setName('Then')
+            .setDesc('Storage folder, filename format, tags to add to the frontmatter (comma-separated) and note template.');
+        addRuleText(actions, 'folder', this.plugin.settings!.emailStorageFolder || '_Inbox');
+        addRuleText(actions, 'filenameFormat', this.plugin.settings!.email_filename_format || DEFAULT_EMAIL_FILENAME_FORMAT);
+        addRuleText(actions, 'tags', 'email, receipt');
+        addRuleText(actions, 'template', this.plugin.settings!.template_file_email || 'Template file');
+    }
+
+    private displayContactGroupFolders() {
+        const { contactGroupFoldersEl } = this;
+        contactGroupFoldersEl.empty();
+
+        const mappings = this.plugin.settings!.contacts_group_folders ?? [];
+        mappings.forEach((mapping) => {
+            new Setting(contactGroupFoldersEl)
+                .addText((text) => {
+                    text.setPlaceholder('Family')
+                        .setValue(mapping.group)
+                        .onChange(async (v) => {
+                            mapping.group = v;
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addText((text) => {
+                    text.setPlaceholder('People/Family')
+                        .setValue(mapping.folder)
+                        .onChange(async (v) => {
+                            mapping.folder = v;
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addExtraButton((b) => {
+                    b.setIcon('trash');
+                    b.setTooltip('remove group folder');
+                    b.onClick(async () => {
+                        this.plugin.settings!.contacts_group_folders = mappings.filter((m) => m !== mapping);
+                        await this.plugin.saveSettings();
+                        this.displayContactGroupFolders();
+                    });
                 });
+        });
+
+        new Setting(contactGroupFoldersEl).addButton((b) => {
+            b.setButtonText('Add Group Folder');
+            b.onClick(async () => {
+                this.plugin.settings!.contacts_group_folders = [...mappings, { group: '', folder: '' }];
+                await this.plugin.saveSettings();
+                this.displayContactGroupFolders();
             });
         });
     }
 
+    private insertEmailRuleTest() {
+        const sample: EmailRuleSample = { from: '', subject: '', labelNames: [], accountName: '' };
+        const setting = new Setting(this.containerEl)
+            .setName('Test rules')
+            .setDesc('Enter the sender, subject, labels (comma-separated) and account of an email to see which rule matches it.');
+        const resultEl = this.containerEl.createEl('p', { cls: 'setting-item-description' });
+
+        const updateResult = () => {
+            const { match, path } = previewEmailRouting(this.plugin, sample);
+            resultEl.setText(
+                (match ? `Matches rule ${match.index + 1}${match.rule.name ? ` "${match.rule.name}"` : ''}` : 'No rule matches') +
+                    `. Saved to ${path}`
+            );
+        };
+        const addSampleText = (placeholder: string, onChange: (v: string) => void) => {
+            setting.addText((text) => {
+                text.setPlaceholder(placeholder).onChange((v) => {
+                    onChange(v.trim());
+                    updateResult();
+                });
+            });
+        };
+        addSampleText('sender@example.com', (v) => (sample.from = v));
+        addSampleText('Subject', (v) => (sample.subject = v));
+        addSampleText('Label, Other label', (v) => (sample.labelNames = v.split(',').map((l) => l.trim()).filter((l) => l)));
+        addSampleText('Account name', (v) => (sample.accountName = v));
+
+        this.updateEmailRuleTest = updateResult;
+        updateResult();
+    }
+
+    private displayEmailAccountSettings() {
+        const { emailQueriesEl, emailScheduleAccountsEl } = this;
+        emailQueriesEl.empty();
+        emailScheduleAccountsEl.empty();
+        for (const account of GoogleAccount.getAllAccounts()) {
+            this.insertEmailQuerySetting(account);
+            this.insertEmailScheduleSetting(account);
+        }
+    }
+
+    private insertEmailScheduleSetting(account: GoogleAccount) {
+        new Setting(this.emailScheduleAccountsEl)
+            .setName(`Import ${account.accountName} in the background`)
+            .setDesc('Include this account in background imports.')
+            .addToggle((tc) => {
+                tc.setValue(this.plugin.settings!.email_schedule_accounts?.[account.accountName] !== false).onChange(async (v) => {
+                    this.plugin.settings!.email_schedule_accounts = {
+                        ...this.plugin.settings!.email_schedule_accounts,
+                        [account.accountName]: v
+                    };
+                    await this.plugin.saveSettings();
+                });
+            });
+    }
+
+    private insertEmailQuerySetting(account: GoogleAccount) {
+        let queryInput: TextComponent | undefined;
+
+        new Setting(this.emailQueriesEl)
+            .setName(`Gmail Query for ${account.accountName}`)
+            .setDesc('Overrides the default query for this account. Leave empty to use the default query. Pick a label to fill in a label query.')
+            .addText((text) => {
+                queryInput = text;
+                text
+                    .setPlaceholder(this.plugin.settings!.email_query || DEFAULT_EMAIL_QUERY)
+                    .onChange(async (v) => {
+                        await this.saveAccountEmailQuery(account.accountName, v);
+                    })
+                    .setValue(this.plugin.settings!.email_account_queries?.[account.accountName] || '');
+            })
+            .addDropdown((dropdown) => {
+                dropdown.addOption('', 'Pick a label...');
+                dropdown.onChange(async (labelName) => {
+                    if (!labelName) {
+                        return;
+                    }
+                    const query = labelToQuery(labelName);
+                    queryInput?.setValue(query);
+                    await this.saveAccountEmailQuery(account.accountName, query);
+                    dropdown.setValue('');
+                });
+
+                this.loadGmailLabelNames(account).then((labelNames) => {
+                    for (const labelName of labelNames) {
+                        dropdown.addOption(labelName, labelName);
+                    }
+                });
+            });
+    }
+
+    private async loadGmailLabelNames(account: GoogleAccount): Promise<string[]> {
+        if (!account.token) {
+            return [];
+        }
+
+        try {
+            if (!account.gmailService) {
+                account.gmailService = await getGmailService({
+                    credentials: GoogleAccount.credentials,
+                    token: account.token
+                });
+            }
+            const labels = await fetchGmailLabels(account.gmailService);
+            return labels.map((l) => l.name).sort((a, b) => a.localeCompare(b));
+        } catch (err: any) {
+            console.warn(`Unable to load Gmail labels for account ${account.accountName}: ${err.message}`);
+            return [];
+        }
+    }
+
+    private async saveAccountEmailQuery(accountName: string, query: string) {
+        this.plugin.settings!.email_account_queries = {
+            ...this.plugin.settings!.email_account_queries,
+            [accountName]: query.trim()
+        };
+        await this.plugin.saveSettings();
+    }
+
     private insertTextInputSetting({
         container = this.containerEl,
         placeholder,
@@ -243,6 +818,7 @@ export class GoogleLookupSettingTab extends PluginSettingTab {
                 b.onClick(() => {
                     AuthModal.createAndOpenNewModal(this.app, account, () => {
                         this.displayAccounts();
+                        this.displayEmailAccountSettings();
                     });
                 });
             })
@@ -255,6 +831,7 @@ export class GoogleLookupSettingTab extends PluginSettingTab {
                         account.removeFromAccountsList();
                         GoogleAccount.writeAccountsToStorage();
                         this.displayAccounts();
+                        this.displayEmailAccountSettings();
                     }).open();
                 });
             });
@@ -0,0 +1,131 @@
+export type EmailPostImportActions = {
+	removeQueryLabels: boolean;
+	addLabel: string;
+	archive: boolean;
+	markRead: boolean;
+};
+
+export type EmailLabelChanges = {
+	addLabelIds: string[];
+	removeLabelIds: string[];
+	/** Label to create in Gmail and add, which is only created once an email needs it */
+	createLabelName?: string;
+	description: string;
+};
+
+export type EmailLedgerEntry = {
+	path: string;
+	account: string;
+	subject: string;
+	importedAt: string;
+	/** Set when the email was imported as part of a thread note */
+	threadId?: string;
+	/** Set when the email was marked as processed without saving it */
+	skipped?: boolean;
+	/** The Message-ID header of the email, used to recognize it in .eml and .mbox files */
+	rfcMessageId?: string;
+	/** Set when the email was imported from a local .eml or .mbox file, to the name of that file */
+	importedFrom?: string;
+	/** Set when the email was imported while Gmail actions were only previewed, until the actions are applied */
+	actionsPending?: boolean;
+};
+
+export type EmailContent = {
+	messageId: string;
+	threadId: string;
+	/** The Message-ID header, without the angle brackets */
+	rfcMessageId?: string;
+	subject: string;
+	from: string;
+	fromName: string;
+	to: string[];
+	cc: string[];
+	date: string;
+	labelIds: string[];
+	snippet: string;
+	HtmlBody?: string;
+	TextBody?: string;
+	attachments: EmailAttachment[];
+	/** Number of attachments, for emails fetched without their bodies and attachments */
+	attachmentCount?: number;
+};
+
+export type EmailSearchResult = EmailContent & {
+	accountSource: string;
+};
+
+export type EmailFormat = 'html' | 'markdown';
+
+export type EmailAttachment = {
+	filename: string;
+	mimeType: string;
+	size: number;
+	attachmentId?: string;
+	data?: string;
+	contentId?: string;
+};
+
+export type RemoteImageMode = 'download' | 'link' | 'remove';
+
+export type EmailFilenameCollision = 'suffix' | 'append';
+
+export type EmailRoutingRule = {
+	name: string;
+	enabled: boolean;
+	/** Sender addresses or domains, separated by commas */
+	from: string;
+	/** Regular expression tested against the subject */
+	subject: string;
+	label: string;
+	account: string;
+	/** Storage folder used instead of the default one */
+	folder: string;
+	filenameFormat: string;
+	/** Tags added to the frontmatter, separated by commas */
+	tags: string;
+	template: string;
+};
+
+export type EmailSyncState = {
+	historyId: string;
+	query: string;
+};
+
+export type EmailImportOptions = {
+	/** Only import for these accounts, all accounts when not set */
+	accountNames?: string[];
+	/** Log progress to the console only, used by the background import */
+	silent?: boolean;
+};
+
+/** What happened to the emails of one account, or of one file, during an import */
+export type EmailAccountReport = {
+	accountName: string;
+	query: string;
+	/** Emails matching the query, including the ones that were imported before */
+	found: number;
+	imported: number;
+	skipped: number;
+	failed: number;
+	errors: string[];
+	/** Error that stopped the import of the whole account, e.g. an expired login, a network error or a quota error */
+	accountError?: string;
+};
+
+export type EmailImportResult = {
+	imported: number;
+	failed: number;
+	errors: string[];
+	accounts: EmailAccountReport[];
+	startedAt: string;
+	finishedAt: string;
+	/** Set for runs of the background import, which show no notices */
+	background?: boolean;
+	/** Error that stopped the whole run before any account was imported */
+	runError?: string;
+};
+
+export type EmailFileImportResult = EmailImportResult & {
+	/** Emails that were left out because they had been imported before */
+	duplicates: number;
+};
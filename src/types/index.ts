@@ -2,5 +2,6 @@ export * from './people';
 export * from './calendar';
 export * from './settings';
 export * from './auth';
+export * from './gmail';
 
-export type KeysMatching<T, V> = { [K in keyof T]-?: T[K] extends V ? K : never }[keyof T];
+export type KeysMatching<T, V> = { [K in keyof T]-?: T[K] extends V ? (V extends T[K] ? K : never) : never }[keyof T];
@@ -48,6 +48,8 @@ export type PersonResult = {
 	resourceName: string | undefined | null;
 	bio?: string | null;
 	contactGroupMembership?: (string | null | undefined)[];
+	/** The contact groups of `contactGroupMembership` with their names */
+	contactGroups?: ContactGroup[];
 	domainMembership?: boolean | null;
 	urls?: (Partial<PersonURL> | null | undefined)[];
 	userDefinedData?: (Partial<PersonCustomData> | null | undefined)[];
@@ -55,4 +57,38 @@ export type PersonResult = {
 	relations?: (Partial<PersonRelation> | null | undefined)[];
 	addresses?: (Partial<PersonAddress> | null | undefined)[];
 	nicknames?: (Partial<PersonNickname> | null | undefined)[];
+	/** URL of the primary photo of the contact, unless it is a default placeholder avatar */
+	photoUrl?: string;
+};
+
+export type ContactGroup = {
+	resourceName: string;
+	name: string;
+};
+
+export type ContactGroupFolder = {
+	/** Name or ID of the contact group */
+	group: string;
+	folder: string;
+};
+
+export type ContactSyncState = {
+	syncToken: string;
+	/** The contact group filter the sync token was created for */
+	group: string;
+};
+
+export type ContactPhoto = {
+	/** The photo URL the file was downloaded from */
+	url: string;
+	path: string;
+};
+
+export type ContactSyncResult = {
+	created: number;
+	updated: number;
+	/** Contacts that were deleted in Google; their notes are kept */
+	deleted: number;
+	failed: number;
+	errors: string[];
 };
@@ -1,12 +1,58 @@
+import {
+	EmailFilenameCollision,
+	EmailFormat,
+	EmailLedgerEntry,
+	EmailRoutingRule,
+	EmailSyncState,
+	RemoteImageMode
+} from './gmail';
+import { ContactGroupFolder, ContactPhoto, ContactSyncState } from './people';
+
 export interface GoogleLookupPluginSettings {
     emailStorageFolder: string; // New setting for the base folder
     subfolderStructure: string; // New setting for the subfolder structure
+	email_query: string;
+	email_account_queries: Record<string, string>;
+	email_remove_query_label: boolean;
+	email_processed_label: string;
+	email_archive_after_import: boolean;
+	email_mark_read_after_import: boolean;
+	email_actions_dry_run: boolean;
+	email_import_ledger: Record<string, EmailLedgerEntry>;
+	email_format: EmailFormat;
+	email_group_threads: boolean;
+	template_file_email: string;
+	template_file_email_summary: string;
+	email_filename_format: string;
+	email_filename_max_length: number;
+	email_filename_collision: EmailFilenameCollision;
+	email_routing_rules: EmailRoutingRule[];
+	email_download_attachments: boolean;
+	email_attachment_folder: string;
+	email_attachment_mime_types: string;
+	email_attachment_max_size_mb: number;
+	email_remote_images: RemoteImageMode;
+	email_plain_reading: boolean;
+	email_incremental_sync: boolean;
+	email_sync_state: Record<string, EmailSyncState>;
+	email_schedule_enabled: boolean;
+	email_schedule_interval_minutes: number;
+	email_schedule_accounts: Record<string, boolean>;
+	email_quiet_hours_start: string;
+	email_quiet_hours_end: string;
+	email_import_log_note: string;
 	client_id: string;
 	client_secret: string;
 	client_redirect_uri_port: number;
 	template_file_person: string;
 	folder_person: string;
 	person_filename_format: string;
+	contacts_sync_folder: string;
+	contacts_sync_group: string;
+	contacts_sync_state: Record<string, ContactSyncState>;
+	contacts_group_folders: ContactGroupFolder[];
+	contact_photos_folder: string;
+	contact_photos: Record<string, ContactPhoto>;
 	template_file_event: string;
 	event_date_format: string;
 	rename_person_file: boolean;
@@ -8,18 +8,20 @@ export class AuthModal extends Modal {
 	result: string | undefined;
 	#account: GoogleAccount;
 	#server: http.Server | undefined;
+	#extraScopes: string[];
 	onSubmit: (result: string) => void;
 
-	constructor(app: App, account: GoogleAccount, onSubmit: (result: string) => void) {
+	constructor(app: App, account: GoogleAccount, onSubmit: (result: string) => void, extraScopes: string[] = []) {
 		super(app);
 		this.#account = account;
+		this.#extraScopes = extraScopes;
 		this.onSubmit = onSubmit;
 	}
 
 	async onOpen() {
 		const { contentEl } = this;
 
-		const url = await getAuthURL(GoogleAccount.credentials);
+		const url = await getAuthURL(GoogleAccount.credentials, this.#extraScopes);
 		this.#server = http
 			.createServer(async (req, res) => {
 				const re = /\/\?code=(\d\/[\w|-]*)&/;
@@ -56,7 +58,7 @@ export class AuthModal extends Modal {
 		contentEl.empty();
 	}
 
-	public static createAndOpenNewModal(app: App, account: GoogleAccount, callback: () => void) {
+	public static createAndOpenNewModal(app: App, account: GoogleAccount, callback: () => void, extraScopes: string[] = []) {
 		new AuthModal(app, account, async (code) => {
 			new Notice(`Updated authentication token for Google account ${account.accountName}...`);
 
@@ -82,6 +84,6 @@ export class AuthModal extends Modal {
 				GoogleAccount.writeAccountsToStorage();
 			}
 			callback();
-		}).open();
+		}, extraScopes).open();
 	}
 }
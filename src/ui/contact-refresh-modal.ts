@@ -0,0 +1,68 @@
+import { DiffLine } from '@/utils/diff';
+import { App, Modal, Setting } from 'obsidian';
+
+// Number of unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+/**
+ * Shows the changes that refreshing a person note would make, and applies them once confirmed.
+ */
+export class ContactRefreshModal extends Modal {
+	#title: string;
+	#diff: DiffLine[];
+	#onApply: () => Promise<void>;
+
+	constructor(app: App, title: string, diff: DiffLine[], onApply: () => Promise<void>) {
+		super(app);
+		this.#title = title;
+		this.#diff = diff;
+		this.#onApply = onApply;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.addClass('google-lookup-contact-refresh');
+		contentEl.createEl('h3', { text: this.#title });
+
+		// Unchanged lines far from any change are left out
+		const isNearChange = (index: number) =>
+			this.#diff
+				.slice(Math.max(index - CONTEXT_LINES, 0), index + CONTEXT_LINES + 1)
+				.some((line) => line.type !== 'same');
+		const diffEl = contentEl.createEl('pre', { cls: 'google-lookup-diff' });
+		let skipped = false;
+		this.#diff.forEach((line, index) => {
+			if (line.type === 'same' && !isNearChange(index)) {
+				if (!skipped) {
+					diffEl.createDiv({ text: '…', cls: 'google-lookup-diff-skipped' });
+				}
+				skipped = true;
+				return;
+			}
+			skipped = false;
+			const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+			diffEl.createDiv({ text: `${prefix}${line.text}`, cls: `google-lookup-diff-${line.type}` });
+		});
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText('Cancel').onClick(() => {
+					this.close();
+				});
+			})
+			.addButton((btn) =>
+				btn
+					.setButtonText('Apply')
+					.setCta()
+					.onClick(async () => {
+						await this.#onApply();
+						this.close();
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
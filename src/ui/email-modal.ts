@@ -0,0 +1,93 @@
+import { getGmailService, searchEmails } from '@/api/google/gmail';
+import { GoogleAccount } from '@/models/Account';
+import { App, moment, Notice, SuggestModal } from 'obsidian';
+import { EmailSearchResult } from '@/types';
+import { insertIntoEditorRange, maybeGetSelectedText } from '@/utils';
+import { Email } from '@/models/Email';
+import { AuthModal } from './auth-modal';
+
+type ModalOptions = {
+	template: string | undefined;
+};
+export class EmailSuggestModal extends SuggestModal<EmailSearchResult> {
+	#initialQuery: string | undefined;
+	#ready = false;
+	#options: ModalOptions;
+
+	async getSuggestions(query: string): Promise<EmailSearchResult[]> {
+		!this.#ready && (await this.initServices());
+		if (query.length === 0) {
+			query = this.#initialQuery ? this.#initialQuery : '';
+		}
+
+		if (query.length < 3) {
+			return [];
+		}
+
+		const results: EmailSearchResult[] = [];
+
+		for (const account of GoogleAccount.getAllAccounts()) {
+			if (!account.gmailService) {
+				continue;
+			}
+			const accountResults = await searchEmails(query, {
+				service: account.gmailService,
+				accountName: account.accountName
+			});
+			if (accountResults) {
+				results.push(...accountResults);
+			} else {
+				AuthModal.createAndOpenNewModal(this.app, account, () => {
+					this.close();
+				});
+
+				break;
+			}
+		}
+		return results.sort((a, b) => b.date.localeCompare(a.date));
+	}
+
+	renderSuggestion(email: EmailSearchResult, el: HTMLElement) {
+		el.createEl('div', { text: email.subject || '(no subject)' });
+		el.createEl('small', {
+			text: `(${email.accountSource}) ${email.fromName || email.from}, ${
+				email.date ? moment(email.date).format('YYYY-MM-DD HH:mm') : ''
+			}`
+		});
+	}
+
+	async onChooseSuggestion(email: EmailSearchResult, evt: MouseEvent | KeyboardEvent) {
+		new Notice(`Inserted info for ${email.subject}`);
+		const e = new Email(email, email.accountSource, [], this.#options.template);
+		insertIntoEditorRange(this.app, await e.generateSummaryFromTemplate(this.app));
+	}
+
+	private async initServices() {
+		for (const account of GoogleAccount.getAllAccounts()) {
+			if (account.token && !account.gmailService) {
+				account.gmailService = await getGmailService({
+					credentials: GoogleAccount.credentials,
+					token: account.token
+				});
+			}
+		}
+		this.#ready = true;
+	}
+
+	constructor(app: App, options: ModalOptions) {
+		super(app);
+		this.#options = options;
+		this.emptyStateText =
+			GoogleAccount.getAllAccounts().length > 0
+				? 'no results found yet'
+				: 'no accounts have been added yet.  go to settings to create.';
+		this.setInstructions([
+			{
+				command: 'find email',
+				purpose: 'search with any Gmail search, e.g. "invoice from:someone@example.com".  Requires at least 3 characters.'
+			}
+		]);
+
+		this.#initialQuery = maybeGetSelectedText(this.app) || undefined;
+	}
+}
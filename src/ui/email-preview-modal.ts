@@ -0,0 +1,191 @@
+import GoogleLookupPlugin from '@/main';
+import { EmailContent } from '@/types';
+import {
+	fetchPendingEmailContent,
+	getEmailTargetPath,
+	importPendingEmail,
+	PendingEmails,
+	saveSyncState,
+	skipPendingEmail
+} from '@/utils/email-import';
+import { App, ButtonComponent, Modal, moment, Notice, Setting } from 'obsidian';
+
+type PreviewAction = 'import' | 'skip';
+
+/**
+ * Lists the emails that the next import would save, so that some of them can be imported and others skipped.
+ * Skipped emails get the same Gmail actions as imported ones and are not offered again.
+ */
+export class EmailPreviewModal extends Modal {
+	#plugin: GoogleLookupPlugin;
+	#pending: PendingEmails[];
+	#errors: string[];
+	#selected = new Set<EmailContent>();
+	#handled = new Set<EmailContent>();
+	#failedAccounts = new Set<string>();
+	#buttons: ButtonComponent[] = [];
+	#statusEl: HTMLElement | undefined;
+
+	constructor(app: App, plugin: GoogleLookupPlugin, pending: PendingEmails[], errors: string[]) {
+		super(app);
+		this.#plugin = plugin;
+		this.#pending = pending;
+		this.#errors = errors;
+		for (const { emails } of pending) {
+			emails.forEach((email) => this.#selected.add(email));
+		}
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('google-lookup-email-preview');
+		this.#buttons = [];
+
+		contentEl.createEl('h3', { text: 'Emails to import' });
+		for (const error of this.#errors) {
+			contentEl.createEl('p', { text: error, cls: 'mod-warning' });
+		}
+
+		for (const pending of this.#pending) {
+			const emails = pending.emails.filter((email) => !this.#handled.has(email));
+			if (emails.length === 0) {
+				continue;
+			}
+
+			contentEl.createEl('h4', { text: `${pending.accountName} (${pending.query})` });
+			if (pending.total > pending.emails.length) {
+				contentEl.createEl('p', {
+					text: `Showing the first ${pending.emails.length} of ${pending.total} emails. The others are listed the next time.`,
+					cls: 'setting-item-description'
+				});
+			}
+			for (const email of emails) {
+				this.renderEmail(contentEl.createDiv({ cls: 'google-lookup-email-preview-row' }), pending, email);
+			}
+		}
+
+		this.#statusEl = contentEl.createEl('p');
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText('Cancel').onClick(() => {
+					this.close();
+				});
+			})
+			.addButton((btn) => {
+				this.#buttons.push(btn);
+				btn.setButtonText('Skip selected and mark processed').onClick(async () => {
+					await this.run('skip');
+				});
+			})
+			.addButton((btn) => {
+				this.#buttons.push(btn);
+				btn
+					.setButtonText('Import selected')
+					.setCta()
+					.onClick(async () => {
+						await this.run('import');
+					});
+			});
+	}
+
+	private renderEmail(rowEl: HTMLElement, pending: PendingEmails, email: EmailContent) {
+		const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+		checkbox.checked = this.#selected.has(email);
+		checkbox.onchange = () => {
+			if (checkbox.checked) {
+				this.#selected.add(email);
+			} else {
+				this.#selected.delete(email);
+			}
+		};
+
+		const attachmentCount = email.attachmentCount ?? email.attachments.filter((a) => a.filename).length;
+		const details = [
+			email.fromName ? `${email.fromName} <${email.from}>` : email.from,
+			email.date ? moment(email.date).format('YYYY-MM-DD HH:mm') : '',
+			attachmentCount > 0 ? `${attachmentCount} attachment(s)` : ''
+		].filter((d) => d.length > 0);
+
+		const textEl = rowEl.createDiv();
+		textEl.createEl('div', { text: email.subject || '(no subject)' });
+		textEl.createEl('small', { text: details.join(', ') });
+		textEl.createEl('div').createEl('small', {
+			text: `→ ${getEmailTargetPath(this.#plugin, pending, email)}`,
+			cls: 'google-lookup-email-preview-path'
+		});
+	}
+
+	private async run(action: PreviewAction) {
+		if (this.#plugin.emailImportRunning) {
+			new Notice('An email import is already running.');
+			return;
+		}
+
+		this.#plugin.emailImportRunning = true;
+		this.#buttons.forEach((btn) => btn.setDisabled(true));
+		let doneCount = 0;
+		let failedCount = 0;
+		const notify = (message: string) => {
+			console.log(message);
+			new Notice(message);
+		};
+
+		try {
+			for (const pending of this.#pending) {
+				for (const email of pending.emails) {
+					if (!this.#selected.has(email) || this.#handled.has(email)) {
+						continue;
+					}
+
+					this.#statusEl?.setText(`${action === 'import' ? 'Importing' : 'Skipping'} "${email.subject}"...`);
+					try {
+						if (action === 'import') {
+							const content = await fetchPendingEmailContent(pending, email);
+							await importPendingEmail(this.#plugin, pending, content, notify);
+						} else {
+							await skipPendingEmail(this.#plugin, pending, email, notify);
+						}
+						this.#handled.add(email);
+						this.#selected.delete(email);
+						doneCount++;
+					} catch (error) {
+						const err = error as Error;
+						console.error(`Failed to process email: ${err.message}`);
+						notify(`Failed to process email: ${err.message}`);
+						this.#failedAccounts.add(pending.accountName);
+						failedCount++;
+					}
+				}
+
+				// The incremental sync only moves forward once every pending email of the account has been handled
+				const allHandled = pending.emails.every((email) => this.#handled.has(email));
+				if (pending.historyId && allHandled && !pending.fetchFailed && !this.#failedAccounts.has(pending.accountName)) {
+					await saveSyncState(this.#plugin, pending.accountName, pending.historyId, pending.query);
+				}
+			}
+		} finally {
+			this.#plugin.emailImportRunning = false;
+		}
+
+		new Notice(
+			`${action === 'import' ? 'Imported' : 'Skipped'} ${doneCount} email(s)` + (failedCount > 0 ? `, ${failedCount} failed` : '')
+		);
+
+		if (this.#pending.every(({ emails }) => emails.every((email) => this.#handled.has(email)))) {
+			this.close();
+		} else {
+			this.render();
+		}
+	}
+}
@@ -0,0 +1,64 @@
+import { EmailImportResult } from '@/types';
+import { App, Modal, moment, Setting } from 'obsidian';
+
+/**
+ * Shows what happened during an email import: the number of emails found, imported, skipped and failed per account,
+ * and the error of every failure.
+ */
+export class EmailImportReportModal extends Modal {
+	#result: EmailImportResult;
+
+	constructor(app: App, result: EmailImportResult) {
+		super(app);
+		this.#result = result;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const result = this.#result;
+		contentEl.addClass('google-lookup-email-report');
+
+		contentEl.createEl('h3', { text: 'Email import report' });
+		const seconds = moment(result.finishedAt).diff(moment(result.startedAt), 'seconds');
+		contentEl.createEl('p', {
+			text:
+				`${result.background ? 'Background import' : 'Import'} started ${moment(result.startedAt).format('YYYY-MM-DD HH:mm')}, ` +
+				`took ${seconds} second(s). ${result.imported} email(s) imported, ${result.failed} failed.`
+		});
+
+		if (result.accounts.length > 0) {
+			const table = contentEl.createEl('table');
+			const header = table.createEl('thead').createEl('tr');
+			['Account', 'Query', 'Found', 'Imported', 'Skipped', 'Failed'].forEach((text) => header.createEl('th', { text }));
+			const body = table.createEl('tbody');
+			for (const report of result.accounts) {
+				const row = body.createEl('tr');
+				[report.accountName, report.query, report.found, report.imported, report.skipped, report.failed].forEach((cell) =>
+					row.createEl('td', { text: String(cell) })
+				);
+			}
+		} else {
+			contentEl.createEl('p', { text: 'No accounts were imported.' });
+		}
+
+		if (result.errors.length > 0) {
+			contentEl.createEl('h4', { text: 'Errors' });
+			const list = contentEl.createEl('ul');
+			result.errors.forEach((error) => list.createEl('li', { text: error, cls: 'mod-warning' }));
+		}
+
+		new Setting(contentEl).addButton((btn) => {
+			btn
+				.setButtonText('Close')
+				.setCta()
+				.onClick(() => {
+					this.close();
+				});
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,16 @@
+/**
+ * Let the user choose files from their computer, outside of the vault.
+ * @param accept The file types to offer, e.g. `.eml,message/rfc822`.
+ * @returns The chosen files, or an empty list when the dialog was cancelled.
+ */
+export const pickLocalFiles = (accept: string, multiple = false): Promise<File[]> => {
+	return new Promise((resolve) => {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = accept;
+		input.multiple = multiple;
+		input.addEventListener('change', () => resolve(Array.from(input.files ?? [])));
+		input.addEventListener('cancel', () => resolve([]));
+		input.click();
+	});
+};
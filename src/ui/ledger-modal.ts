@@ -0,0 +1,36 @@
+import { App, moment, SuggestModal } from 'obsidian';
+import { EmailLedgerItem, ImportLedger } from '@/models/ImportLedger';
+
+export class ImportLedgerSuggestModal extends SuggestModal<EmailLedgerItem> {
+	#ledger: ImportLedger;
+	#onChoose: (item: EmailLedgerItem) => void;
+
+	getSuggestions(query: string): EmailLedgerItem[] {
+		const q = query.toLowerCase();
+		return this.#ledger
+			.getAll()
+			.filter((item) => [item.subject, item.path, item.account].some((f) => f?.toLowerCase().includes(q)));
+	}
+
+	renderSuggestion(item: EmailLedgerItem, el: HTMLElement) {
+		const source = item.importedFrom ? ` from ${item.importedFrom}` : '';
+		el.createEl('div', { text: item.subject || item.path });
+		el.createEl('small', {
+			text: item.skipped
+				? `(${item.account}) skipped ${moment(item.importedAt).fromNow()}`
+				: `(${item.account}) ${item.path}, imported${source} ${moment(item.importedAt).fromNow()}`
+		});
+	}
+
+	onChooseSuggestion(item: EmailLedgerItem, evt: MouseEvent | KeyboardEvent) {
+		this.#onChoose(item);
+	}
+
+	constructor(app: App, ledger: ImportLedger, purpose: string, onChoose: (item: EmailLedgerItem) => void) {
+		super(app);
+		this.#ledger = ledger;
+		this.#onChoose = onChoose;
+		this.emptyStateText = 'no imported emails found';
+		this.setInstructions([{ command: 'find imported email', purpose }]);
+	}
+}
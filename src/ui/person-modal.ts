@@ -1,9 +1,11 @@
-import { getPeopleService, searchContactsAndDirectory } from '@/api/google/people-search';
+import { copyOtherContactToContacts, getPeopleService, searchContactsAndDirectory } from '@/api/google/people-search';
+import { CONTACTS_WRITE_SCOPE, hasTokenScope } from '@/api/google/auth';
 import { GoogleAccount } from '@/models/Account';
-import { App, Notice, SuggestModal } from 'obsidian';
-import { PersonResult } from '@/types';
+import { App, Notice, SuggestModal, TFile } from 'obsidian';
+import { ContactGroupFolder, PersonResult } from '@/types';
 import { insertIntoEditorRange, maybeGetSelectedText, renameFile } from '@/utils';
 import { Person } from '@/models/Person';
+import { getContactGroupFolder } from '@/utils/person-note';
 import { AuthModal } from './auth-modal';
 
 type ModalOptions = {
@@ -11,6 +13,8 @@ type ModalOptions = {
 	moveToFolder: string;
 	template: string | undefined;
 	newFilenameTemplate: string | undefined;
+	savePhoto?: (person: PersonResult, note: Person) => Promise<TFile | undefined>;
+	groupFolders?: ContactGroupFolder[];
 };
 export class PersonSuggestModal extends SuggestModal<PersonResult> {
 	#initialQuery: string | undefined;
@@ -53,18 +57,74 @@ export class PersonSuggestModal extends SuggestModal<PersonResult> {
 	renderSuggestion(person: PersonResult, el: HTMLElement) {
 		el.createEl('div', { text: person.displayNameLastFirst });
 		el.createEl('small', {
-			text: `(${person.accountSource}) ${person.org?.title ? person.org.title : ''} ${
+			text: `(${person.accountSource}${person.type === 'OTHER_CONTACTS' ? ', other contact' : ''}) ${
+				person.org?.title ? person.org.title : ''
+			} ${
 				person.emails ? person.emails[0] : ''
 			}`
 		});
 	}
 
 	async onChooseSuggestion(person: PersonResult, evt: MouseEvent | KeyboardEvent) {
+		if (person.type !== 'OTHER_CONTACTS' || !evt.shiftKey) {
+			await this.insertPerson(person);
+			return;
+		}
+
+		const account = GoogleAccount.getAllAccounts().find((a) => a.accountName === person.accountSource);
+		if (account && !hasTokenScope(account.token, CONTACTS_WRITE_SCOPE)) {
+			// Editing contacts is only authorized when it is first needed
+			new Notice(`Allow ${account.accountName} to edit contacts to save ${person.displayNameLastFirst}`);
+			AuthModal.createAndOpenNewModal(
+				this.app,
+				account,
+				async () => {
+					const contact = await this.saveAsContact(person);
+					contact && (await this.insertPerson(contact));
+				},
+				[CONTACTS_WRITE_SCOPE]
+			);
+			return;
+		}
+		const contact = await this.saveAsContact(person);
+		contact && (await this.insertPerson(contact));
+	}
+
+	private async insertPerson(person: PersonResult) {
 		new Notice(`Inserted info for ${person.firstName}`);
 		const p = new Person(person, this.#options.template, this.#options.newFilenameTemplate);
+		try {
+			p.setPhoto(await this.#options.savePhoto?.(person, p));
+		} catch (error: any) {
+			console.error(`unable to save contact photo: ${error.message}`);
+		}
 		insertIntoEditorRange(this.app, await p.generateFromTemplate(this.app));
 		if (this.#options.renameFile) {
-			await renameFile(this.app, p.getTitle(), this.#options.moveToFolder);
+			const folder = getContactGroupFolder(person, this.#options.groupFolders) || this.#options.moveToFolder;
+			await renameFile(this.app, p.getTitle(), folder);
+		}
+	}
+
+	// Save a person from "Other contacts" as a contact, so that the note can be refreshed and synced later on
+	private async saveAsContact(person: PersonResult): Promise<PersonResult | undefined> {
+		const account = GoogleAccount.getAllAccounts().find((a) => a.accountName === person.accountSource);
+		if (!account?.peopleService || !person.resourceName) {
+			return;
+		}
+		try {
+			const contact = await copyOtherContactToContacts(
+				{ service: account.peopleService, accountName: account.accountName },
+				person.resourceName
+			);
+			new Notice(`Saved ${person.displayNameLastFirst} as a contact`);
+			return contact;
+		} catch (error: any) {
+			console.error(`unable to save other contact: ${error.message}`);
+			new Notice(
+				error.code === 403 || error.response?.status === 403
+					? `Unable to save contact: ${account.accountName} is not allowed to edit contacts. Allow it when asked to.`
+					: `Unable to save contact: ${error.message}`
+			);
 		}
 	}
 
@@ -91,8 +151,14 @@ export class PersonSuggestModal extends SuggestModal<PersonResult> {
 			{
 				command: 'find contact',
 				purpose: 'search by any contact keyword (first, last, email).  Requires at least 3 characters.'
-			}
+			},
+			{ command: 'shift ↵', purpose: 'save an other contact as a contact, then insert' }
 		]);
+		// Choose the suggestion with the shift key held, which onChooseSuggestion checks for
+		this.scope.register(['Shift'], 'Enter', (evt) => {
+			this.selectActiveSuggestion(evt);
+			return false;
+		});
 		const selectedText = maybeGetSelectedText(this.app);
 		const fileName = this.app.workspace.getActiveFile()?.basename;
 
@@ -0,0 +1,20 @@
+import { Notice } from 'obsidian';
+
+/**
+ * A notice that stays open while a long-running task reports its progress.
+ */
+export class ProgressNotice {
+	#notice: Notice;
+
+	constructor(message: string) {
+		this.#notice = new Notice(message, 0);
+	}
+
+	setMessage(message: string) {
+		this.#notice.setMessage(message);
+	}
+
+	hide() {
+		this.#notice.hide();
+	}
+}
@@ -0,0 +1,22 @@
+/**
+ * Map over items with an async function, running at most `limit` calls at the same time.
+ * Results are returned in the order of the items.
+ */
+export const mapWithConcurrency = async <T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+	return results;
+};
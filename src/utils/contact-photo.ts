@@ -0,0 +1,65 @@
+import GoogleLookupPlugin from '@/main';
+import { PersonResult } from '@/types';
+import { normalizePath, TFile } from 'obsidian';
+import * as path from 'path';
+import { ensureFolder, fetchRemoteImage, removeInvalidFileNameChars } from './files';
+
+// Get the file extension for a photo from its MIME type, e.g. "image/jpeg"
+const getPhotoExtension = (mimeType: string): string => {
+	const extension = mimeType.split('/')[1]?.split(/[;+]/)[0].trim() || 'jpg';
+	return extension === 'jpeg' ? 'jpg' : extension;
+};
+
+/**
+ * Download the primary photo of a contact into the contact photo folder, named after the person.  The photo is only
+ * downloaded again when the photo URL of the contact changed, and then the existing file is overwritten, so that links
+ * to it keep working.
+ * @param name - Name of the photo file without its extension, usually the name of the person note.
+ * @returns The photo file, or undefined when the contact has no photo of its own or photos are not downloaded.
+ */
+export const saveContactPhoto = async (
+	plugin: GoogleLookupPlugin,
+	person: PersonResult,
+	name: string
+): Promise<TFile | undefined> => {
+	const { app } = plugin;
+	const settings = plugin.settings!;
+	const folder = settings.contact_photos_folder?.trim();
+	if (!folder || !person.photoUrl || !person.resourceName) {
+		return;
+	}
+
+	const saved = settings.contact_photos?.[person.resourceName];
+	const savedFile = saved && app.vault.getAbstractFileByPath(saved.path);
+	const existing = savedFile instanceof TFile ? savedFile : undefined;
+	if (existing && saved?.url === person.photoUrl) {
+		return existing;
+	}
+
+	const image = await fetchRemoteImage(person.photoUrl);
+	if (!image) {
+		return existing;
+	}
+	const data = image.data.buffer.slice(image.data.byteOffset, image.data.byteOffset + image.data.byteLength);
+
+	let file = existing;
+	if (file) {
+		await app.vault.modifyBinary(file, data);
+	} else {
+		await ensureFolder(app, folder);
+		const baseName = removeInvalidFileNameChars(name).trim() || 'Unnamed contact';
+		const extension = getPhotoExtension(image.mimeType);
+		let photoPath = normalizePath(path.posix.join(folder, `${baseName}.${extension}`));
+		for (let i = 2; app.vault.getAbstractFileByPath(photoPath); i++) {
+			photoPath = normalizePath(path.posix.join(folder, `${baseName} (${i}).${extension}`));
+		}
+		file = await app.vault.createBinary(photoPath, data);
+	}
+
+	settings.contact_photos = {
+		...settings.contact_photos,
+		[person.resourceName]: { url: person.photoUrl, path: file.path }
+	};
+	await plugin.saveSettings();
+	return file;
+};
@@ -0,0 +1,154 @@
+import GoogleLookupPlugin from '@/main';
+import {
+	clearContactGroupNames,
+	fetchContactChanges,
+	fetchContactGroups,
+	getPeopleService
+} from '@/api/google/people-search';
+import { GoogleAccount } from '@/models/Account';
+import { Person } from '@/models/Person';
+import { ContactSyncResult } from '@/types';
+import { people_v1 } from '@googleapis/people';
+import { App, TFile } from 'obsidian';
+import { saveFileToStack } from './files';
+import { saveContactPhoto } from './contact-photo';
+import { createPersonNote, getContactGroupFolder, getNoteName, getRefreshedPersonNote } from './person-note';
+
+type ContactSyncOptions = {
+	onProgress?: (message: string) => void;
+};
+
+/**
+ * Find the person notes in the vault by the `resourceName` in their frontmatter.
+ */
+export const findPersonNotes = (app: App): Map<string, TFile> => {
+	const notes = new Map<string, TFile>();
+	for (const file of app.vault.getMarkdownFiles()) {
+		const resourceName = app.metadataCache.getFileCache(file)?.frontmatter?.resourceName;
+		if (typeof resourceName === 'string') {
+			notes.set(resourceName, file);
+		}
+	}
+	return notes;
+};
+
+// Get the resource name of the contact group to sync, from its name or ID, or undefined when all contacts are synced
+const resolveContactGroup = async (service: people_v1.People, group: string) => {
+	if (!group) {
+		return;
+	}
+	const groups = await fetchContactGroups({ service });
+	const match = groups.find(
+		(g) =>
+			g.name.toLowerCase() === group.toLowerCase() || g.resourceName === group || g.resourceName === `contactGroups/${group}`
+	);
+	if (!match) {
+		throw new Error(`Contact group "${group}" not found`);
+	}
+	return match.resourceName;
+};
+
+/**
+ * Create a person note for every saved contact of every account, from the person template and filename format, in
+ * the contact sync folder, or in the folder mapped to one of their contact groups.  The contacts can be limited to one
+ * contact group.
+ * Notes are found again by the `resourceName` in their frontmatter, wherever they were moved to.  For contacts that
+ * already have a note, only the frontmatter kept by the plugin and the generated block are updated, so the rest of the
+ * note is left as it is.
+ * After the first sync, only the contacts that changed since the previous sync are fetched.
+ */
+export const syncContacts = async (
+	plugin: GoogleLookupPlugin,
+	{ onProgress }: ContactSyncOptions = {}
+): Promise<ContactSyncResult> => {
+	const { app } = plugin;
+	const settings = plugin.settings!;
+	const result: ContactSyncResult = { created: 0, updated: 0, deleted: 0, failed: 0, errors: [] };
+	const notes = findPersonNotes(app);
+	const groupFilter = settings.contacts_sync_group?.trim() ?? '';
+
+	for (const account of GoogleAccount.getAllAccounts()) {
+		const { accountName } = account;
+		if (!account.token) {
+			result.errors.push(`${accountName}: No token found for account`);
+			continue;
+		}
+
+		try {
+			const service = await getPeopleService({ credentials: GoogleAccount.credentials, token: account.token });
+			const groupResourceName = await resolveContactGroup(service, groupFilter);
+			// Fetch the group names again, in case groups were renamed since the last sync
+			clearContactGroupNames(accountName);
+
+			// A sync token only covers the contacts of the group filter it was created with
+			const state = settings.contacts_sync_state?.[accountName];
+			const syncToken = state && state.group === groupFilter ? state.syncToken : undefined;
+			const onPage = (count: number) => onProgress?.(`Fetching contacts for ${accountName}: ${count}`);
+			// All contacts are fetched on the first sync, and when the sync token has expired
+			const changes =
+				(syncToken ? await fetchContactChanges({ service, accountName }, syncToken, onPage) : undefined) ??
+				(await fetchContactChanges({ service, accountName }, undefined, onPage))!;
+
+			const people = changes.people.filter(
+				(person) => !groupResourceName || person.contactGroupMembership?.includes(groupResourceName)
+			);
+			result.deleted += changes.deleted.filter((resourceName) => notes.has(resourceName)).length;
+
+			let failed = 0;
+			for (const [index, person] of people.entries()) {
+				onProgress?.(`Syncing contacts for ${accountName}: ${index + 1} of ${people.length}`);
+				if (!person.resourceName) {
+					continue;
+				}
+
+				try {
+					const note = new Person(person, settings.template_file_person, settings.person_filename_format);
+					note.setPhoto(await saveContactPhoto(plugin, person, getNoteName(person, note)));
+					const existing = notes.get(person.resourceName);
+					if (existing) {
+						const content = await app.vault.read(existing);
+						const updated = await getRefreshedPersonNote(app, content, note);
+						if (updated !== content) {
+							await app.vault.modify(existing, updated);
+							result.updated++;
+						}
+						continue;
+					}
+
+					const content = await createPersonNote(app, note);
+					const file = await saveFileToStack(
+						app,
+						getContactGroupFolder(person, settings.contacts_group_folders) || settings.contacts_sync_folder || '/',
+						`${getNoteName(person, note)}.md`,
+						content,
+						{ collision: 'suffix' }
+					);
+					notes.set(person.resourceName, file);
+					result.created++;
+				} catch (error) {
+					const err = error as Error;
+					console.error(`Failed to sync contact ${person.resourceName}: ${err.message}`);
+					result.errors.push(`${accountName}: Failed to sync ${person.displayNameLastFirst}: ${err.message}`);
+					failed++;
+				}
+			}
+			result.failed += failed;
+
+			// Failed contacts are retried on the next sync, so the sync token is only saved when nothing failed
+			if (changes.syncToken && failed === 0) {
+				settings.contacts_sync_state = {
+					...settings.contacts_sync_state,
+					[accountName]: { syncToken: changes.syncToken, group: groupFilter }
+				};
+				await plugin.saveSettings();
+			}
+		} catch (error) {
+			const err = error as Error;
+			console.error(`Error syncing contacts for account ${accountName}: ${err.message}`);
+			result.failed++;
+			result.errors.push(`${accountName}: ${err.message}`);
+		}
+	}
+
+	return result;
+};
@@ -0,0 +1,33 @@
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Compare two texts line by line, using the longest common subsequence of their lines.
+ * @returns Every line of both texts, marked as unchanged, added or removed, in order.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+	const a = before.split('\n');
+	const b = after.split('\n');
+
+	// lengths[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+	const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			lines.push({ type: 'same', text: a[i++] });
+			j++;
+		} else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+			lines.push({ type: 'removed', text: a[i++] });
+		} else {
+			lines.push({ type: 'added', text: b[j++] });
+		}
+	}
+	return lines;
+};
@@ -0,0 +1,112 @@
+import GoogleLookupPlugin from '@/main';
+import { EmailAccountReport, EmailContent, EmailFileImportResult, EmailLedgerEntry } from '@/types';
+import { saveEmail } from './email-import';
+import { readMboxMessages } from './mbox';
+import { rawMessageToEmailContent } from './mime';
+
+// Number of imported emails that are recorded in the import ledger at once
+const LEDGER_BATCH_SIZE = 50;
+
+// Read the messages of an .mbox archive one at a time, or the single message of an .eml file
+async function* readEmailFile(file: File, onRead: (bytesRead: number) => void): AsyncGenerator<Buffer> {
+	if (file.name.toLowerCase().endsWith('.mbox')) {
+		yield* readMboxMessages(file, onRead);
+	} else {
+		onRead(file.size);
+		yield Buffer.from(await file.arrayBuffer());
+	}
+}
+
+/**
+ * Import the emails of local .eml files and .mbox archives, such as a Google Takeout export, with the same templates
+ * and routing rules as emails from Gmail.  The name of the file, without its extension, takes the place of the
+ * account name.
+ * Emails whose Message-ID header is already in the import ledger are left out, and so are the messages of Gmail
+ * threads (from the X-GM-THRID header) that were imported as thread notes.
+ */
+export const importEmailFiles = async (
+	plugin: GoogleLookupPlugin,
+	files: File[],
+	{ onProgress }: { onProgress?: (message: string) => void } = {}
+): Promise<EmailFileImportResult> => {
+	const result: EmailFileImportResult = {
+		imported: 0,
+		failed: 0,
+		duplicates: 0,
+		errors: [],
+		accounts: [],
+		startedAt: new Date().toISOString(),
+		finishedAt: ''
+	};
+	const importedIds = plugin.ledger.getImportedMessageIds();
+	const importedThreadIds = new Set(plugin.ledger.getAll().flatMap((entry) => (entry.threadId ? [entry.threadId] : [])));
+
+	let entries: Record<string, EmailLedgerEntry> = {};
+	const recordEntries = async () => {
+		if (Object.keys(entries).length > 0) {
+			await plugin.ledger.recordAll(entries);
+			entries = {};
+		}
+	};
+
+	try {
+		for (const file of files) {
+			const accountName = file.name.replace(/\.(eml|mbox)$/i, '');
+			const report: EmailAccountReport = {
+				accountName,
+				query: file.name,
+				found: 0,
+				imported: 0,
+				skipped: 0,
+				failed: 0,
+				errors: []
+			};
+			result.accounts.push(report);
+			let bytesRead = 0;
+			const reportProgress = () => {
+				const percent = file.size > 0 ? Math.floor((bytesRead / file.size) * 100) : 100;
+				onProgress?.(
+					`Importing ${file.name} (${percent}%): ${result.imported} imported, ${result.duplicates} already imported` +
+						(result.failed > 0 ? `, ${result.failed} failed` : '')
+				);
+			};
+
+			for await (const raw of readEmailFile(file, (count) => (bytesRead = count))) {
+				let email: EmailContent | undefined;
+				report.found++;
+				try {
+					email = rawMessageToEmailContent(raw);
+					if (importedIds.has(email.messageId) || importedThreadIds.has(email.threadId)) {
+						result.duplicates++;
+						report.skipped++;
+						continue;
+					}
+
+					const { entry } = await saveEmail({ plugin, accountName, email, importedFrom: file.name });
+					entries[email.messageId] = entry;
+					importedIds.add(email.messageId);
+					result.imported++;
+					report.imported++;
+					if (Object.keys(entries).length >= LEDGER_BATCH_SIZE) {
+						await recordEntries();
+					}
+				} catch (error) {
+					const err = error as Error;
+					const message = `Failed to import "${email?.subject ?? 'unreadable message'}": ${err.message}`;
+					result.failed++;
+					report.failed++;
+					report.errors.push(message);
+					result.errors.push(`${file.name}: ${message}`);
+				} finally {
+					reportProgress();
+				}
+			}
+		}
+	} finally {
+		// Emails saved before a failure stay recorded, so that importing the file again carries on where it stopped
+		await recordEntries();
+	}
+
+	result.finishedAt = new Date().toISOString();
+	return result;
+};
@@ -0,0 +1,881 @@
+import GoogleLookupPlugin from '@/main';
+import { gmail_v1 } from '@googleapis/gmail';
+import { App, Notice, TFile, moment, normalizePath } from 'obsidian';
+import * as path from 'path';
+import {
+	fetchAttachmentData,
+	fetchCurrentHistoryId,
+	fetchGmailLabels,
+	fetchMessageIdsForQuery,
+	fetchMessageIdsSinceHistory,
+	fetchMessages,
+	fetchThreadMessages,
+	findQueryLabelName,
+	getGmailService,
+	getSingleQueryLabel,
+	hasLabelChanges,
+	modifyEmailLabels,
+	resolveLabelChanges
+} from '@/api/google/gmail';
+import { GoogleAccount } from '@/models/Account';
+import { Email } from '@/models/Email';
+import { getEmailQuery, getPostImportActions } from '@/settings/email';
+import {
+	EmailAccountReport,
+	EmailAttachment,
+	EmailContent,
+	EmailImportOptions,
+	EmailImportResult,
+	EmailLabelChanges,
+	EmailLedgerEntry,
+	GoogleLookupPluginSettings
+} from '@/types';
+import { ProgressNotice } from '@/ui/progress-notice';
+import { EmailRuleSample, findMatchingRule, getRuleTags } from './email-rules';
+import { escapeHtml, sanitizeEmailHtml } from './sanitize';
+import {
+	collapseQuotedHtml,
+	collapseQuotedMarkdown,
+	getStackFolder,
+	prepareEmailContent,
+	prepareEmailMarkdown,
+	saveBinaryFile,
+	saveEmailImages,
+	saveFileToStack,
+	shouldSaveAttachment
+} from './files';
+
+// Number of emails fetched from Gmail before they are saved to the vault
+const EMAIL_IMPORT_BATCH_SIZE = 50;
+// Most emails listed per account by the preview
+const EMAIL_PREVIEW_MAX_EMAILS = 200;
+
+/** The Gmail service, query, labels and post-import Gmail actions used while importing the emails of an account */
+export type AccountImportContext = {
+	accountName: string;
+	service: gmail_v1.Gmail;
+	query: string;
+	labels: { id: string; name: string }[];
+	labelChanges: EmailLabelChanges;
+	dryRun: boolean;
+	/** Threads saved during this import, when whole threads are imported */
+	importedThreadIds: Set<string>;
+};
+
+/** The emails of an account that have not been imported yet */
+export type PendingEmails = AccountImportContext & {
+	emails: EmailContent[];
+	/** History ID to save once every pending email has been imported or skipped */
+	historyId?: string;
+	/** Whether some of the emails could not be fetched */
+	fetchFailed: boolean;
+	/** Number of emails that have not been imported yet, which can be more than the emails listed */
+	total: number;
+};
+
+type ImportEmailOptions = {
+	plugin: GoogleLookupPlugin;
+	/** Not needed for emails read from local files, which hold their attachments and labels */
+	service?: gmail_v1.Gmail;
+	accountName: string;
+	email: EmailContent;
+	labels?: { id: string; name: string }[];
+	/** The name of the local .eml or .mbox file the email was read from */
+	importedFrom?: string;
+};
+
+// Get the contents of an attachment, either sent along with the message or fetched separately from Gmail
+const loadAttachmentData = async (
+	service: gmail_v1.Gmail | undefined,
+	messageId: string,
+	attachment: EmailAttachment
+): Promise<Buffer> => {
+	if (attachment.data) {
+		return Buffer.from(attachment.data, 'base64');
+	}
+	if (!service) {
+		throw new Error(`No data for attachment ${attachment.filename}`);
+	}
+	return await fetchAttachmentData({ service, messageId, attachmentId: attachment.attachmentId! });
+};
+
+/**
+ * Save the attachments of an email that pass the configured filters into the attachment folder.
+ * A failed attachment is logged and skipped so that it does not stop the email itself from being imported.
+ * @returns The saved attachment files.
+ */
+const saveEmailAttachments = async (
+	app: App,
+	service: gmail_v1.Gmail | undefined,
+	email: EmailContent,
+	folder: string,
+	settings: GoogleLookupPluginSettings
+): Promise<TFile[]> => {
+	const savedFiles: TFile[] = [];
+
+	for (const attachment of email.attachments) {
+		if (!attachment.filename) {
+			continue;
+		}
+		if (
+			!shouldSaveAttachment(attachment, settings.email_attachment_mime_types ?? '', settings.email_attachment_max_size_mb ?? 0)
+		) {
+			console.log(`Skipping attachment ${attachment.filename} (${attachment.mimeType}, ${attachment.size} bytes)`);
+			continue;
+		}
+
+		try {
+			const data = await loadAttachmentData(service, email.messageId, attachment);
+			savedFiles.push(await saveBinaryFile(app, folder, attachment.filename, data));
+		} catch (err: any) {
+			console.error(`Failed to save attachment ${attachment.filename}: ${err.message}`);
+		}
+	}
+
+	return savedFiles;
+};
+
+// Add links to the saved attachments at the end of an HTML email, relative to the email's folder
+const appendAttachmentLinks = (html: string, attachments: TFile[], emailFolder: string): string => {
+	if (attachments.length === 0) {
+		return html;
+	}
+
+	const items = attachments
+		.map((file) => {
+			const href = encodeURI(path.posix.relative(emailFolder, file.path));
+			return `<li><a href="${href}">${file.name}</a></li>`;
+		})
+		.join('');
+	const list = `<hr><p>Attachments:</p><ul>${items}</ul>`;
+
+	return html.includes('</body>') ? html.replace('</body>', `${list}</body>`) : `${html}${list}`;
+};
+
+// Get the names of Gmail labels, falling back to the ID for labels that no longer exist
+const getLabelNames = (labelIds: string[], labels: { id: string; name: string }[]): string[] => {
+	return labelIds.map((id) => labels.find((l) => l.id === id)?.name ?? id);
+};
+
+// Get the vault folder an email is saved to, from the storage folder and the subfolder pattern
+const getEmailFolder = (
+	plugin: GoogleLookupPlugin,
+	accountName: string,
+	email: EmailContent,
+	labelNames: string[],
+	storageFolder?: string
+) => {
+	const settings = plugin.settings!;
+	const emailDate = email.date ? new Date(email.date) : new Date(); // Use email date or fallback to current date
+
+	return getStackFolder(storageFolder || settings.emailStorageFolder || '', settings.subfolderStructure ?? '', emailDate, {
+		account: accountName,
+		label: findQueryLabelName(getEmailQuery(plugin, accountName), labelNames),
+		from: email.from || 'unknown'
+	});
+};
+
+/**
+ * Get the note for an email and the folder it is saved to.  The first routing rule that matches the email can change
+ * the storage folder, the filename format, the note template and the tags of the note.
+ */
+const prepareEmailNote = (plugin: GoogleLookupPlugin, accountName: string, email: EmailContent, labelNames: string[]) => {
+	const settings = plugin.settings!;
+	const match = findMatchingRule(settings.email_routing_rules, {
+		from: email.from,
+		subject: email.subject,
+		labelNames,
+		accountName
+	});
+	const rule = match?.rule;
+
+	const note = new Email(
+		email,
+		accountName,
+		labelNames,
+		rule?.template || settings.template_file_email,
+		rule?.filenameFormat || settings.email_filename_format,
+		getRuleTags(rule)
+	);
+	return { note, folder: getEmailFolder(plugin, accountName, email, labelNames, rule?.folder), match };
+};
+
+/**
+ * Show where an email with the given sender, subject, labels and account would be saved, e.g. to test the routing
+ * rules in the settings.  Today's date is used as the date of the email.
+ */
+export const previewEmailRouting = (plugin: GoogleLookupPlugin, sample: EmailRuleSample) => {
+	const email: EmailContent = {
+		messageId: '',
+		threadId: '',
+		subject: sample.subject,
+		from: sample.from,
+		fromName: '',
+		to: [],
+		cc: [],
+		date: new Date().toISOString(),
+		labelIds: sample.labelNames,
+		snippet: '',
+		attachments: []
+	};
+	const { note, folder, match } = prepareEmailNote(plugin, sample.accountName, email, sample.labelNames);
+	return { match, path: normalizePath(path.posix.join(folder, getEmailFilename(plugin.settings!, note))) };
+};
+
+// Get the file name of an email note, with the extension of the configured email format
+const getEmailFilename = (settings: GoogleLookupPluginSettings, note: Email) => {
+	const extension = settings.email_format === 'markdown' ? 'md' : 'htm';
+	return `${note.getFilename(settings.email_filename_max_length ?? 0)}.${extension}`;
+};
+
+/**
+ * Save the images and attachments of an email into the attachment folder, so that the email can link to them.
+ * The HTML body of the email is sanitized first, so that tracking images are never downloaded, and then rewritten to
+ * point at the saved images.
+ * @returns The saved attachment files.
+ */
+const saveEmailResources = async (
+	plugin: GoogleLookupPlugin,
+	service: gmail_v1.Gmail | undefined,
+	email: EmailContent,
+	targetFolder: string
+): Promise<TFile[]> => {
+	const { app } = plugin;
+	const settings = plugin.settings!;
+	const attachmentFolder = path.posix.join(targetFolder, settings.email_attachment_folder ?? '');
+
+	if (email.HtmlBody) {
+		email.HtmlBody = sanitizeEmailHtml(email.HtmlBody, { plain: settings.email_plain_reading });
+		const { html, inlineImages } = await saveEmailImages({
+			app,
+			email,
+			imageFolder: attachmentFolder,
+			emailFolder: targetFolder,
+			remoteImages: settings.email_remote_images ?? 'download',
+			loadAttachment: (a) => loadAttachmentData(service, email.messageId, a)
+		});
+		email.HtmlBody = html;
+		email.attachments = email.attachments.filter((a) => !inlineImages.includes(a));
+	}
+
+	return settings.email_download_attachments
+		? await saveEmailAttachments(app, service, email, attachmentFolder, settings)
+		: [];
+};
+
+/**
+ * Save a single email to the vault without recording it in the import ledger.
+ * @returns The saved email file and the ledger entry to record for it.
+ */
+export const saveEmail = async ({
+	plugin,
+	service,
+	accountName,
+	email,
+	labels,
+	importedFrom
+}: ImportEmailOptions): Promise<{ file: TFile; entry: EmailLedgerEntry }> => {
+	const { app } = plugin;
+	const settings = plugin.settings!;
+	const { messageId, subject } = email;
+
+	const labelNames = getLabelNames(email.labelIds, labels ?? (service ? await fetchGmailLabels(service) : []));
+	const { note, folder: targetFolder } = prepareEmailNote(plugin, accountName, email, labelNames);
+	const filename = getEmailFilename(settings, note);
+
+	// Images and attachments are saved first so that the email can link to them
+	const attachments = await saveEmailResources(plugin, service, email, targetFolder);
+
+	// Prepare the email content
+	let emailContent: string;
+	if (settings.email_format === 'markdown') {
+		emailContent = await note.generateFromTemplate(app, {
+			body: prepareEmailMarkdown(email),
+			attachments: attachments.map((file) => file.path)
+		});
+	} else {
+		emailContent = appendAttachmentLinks(prepareEmailContent(email), attachments, targetFolder);
+	}
+
+	// Re-importing an email replaces the file of the earlier import instead of adding a numbered copy, unless other
+	// emails were appended to that file
+	const previousPath = plugin.ledger.get(messageId)?.path || undefined;
+	const isShared = !!previousPath && plugin.ledger.isSharedPath(previousPath, messageId);
+	const file = await saveFileToStack(app, targetFolder, filename, emailContent, {
+		collision: settings.email_filename_collision,
+		replacePath: isShared ? undefined : previousPath,
+		keepPath: isShared ? previousPath : undefined
+	});
+	console.log(`Saved email to: ${file.path}`);
+
+	const entry: EmailLedgerEntry = {
+		path: file.path,
+		account: accountName,
+		subject,
+		importedAt: new Date().toISOString(),
+		rfcMessageId: email.rfcMessageId,
+		importedFrom
+	};
+	return { file, entry };
+};
+
+/**
+ * Save a single email to the vault and record it in the import ledger.
+ * @returns The saved email file.
+ */
+export const importEmail = async (options: ImportEmailOptions): Promise<TFile> => {
+	const { file, entry } = await saveEmail(options);
+	await options.plugin.ledger.record(options.email.messageId, entry);
+	return file;
+};
+
+// Get what is inside the <body> of an HTML email, so that several emails can be put into one document
+const getHtmlBodyContent = (html: string): string => {
+	return html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+};
+
+/**
+ * Save a whole Gmail thread as one note with its messages in chronological order, and record every message of the
+ * thread in the import ledger.  When the thread was imported before, its note is rewritten in place so that it also
+ * holds the messages added since.
+ * @returns The saved thread file.
+ */
+export const importEmailThread = async ({
+	plugin,
+	service,
+	accountName,
+	threadId,
+	labels
+}: Omit<ImportEmailOptions, 'email' | 'service'> & { service: gmail_v1.Gmail; threadId: string }): Promise<TFile> => {
+	const { app } = plugin;
+	const settings = plugin.settings!;
+	const messages = await fetchThreadMessages({ service, threadId });
+	if (messages.length === 0) {
+		throw new Error(`Thread ${threadId} has no messages`);
+	}
+
+	// The thread note takes its subject, date and sender from the first message, and the labels of all messages
+	const labelIds = [...new Set(messages.flatMap((m) => m.labelIds))];
+	const thread: EmailContent = { ...messages[0], labelIds };
+	const labelNames = getLabelNames(labelIds, labels ?? (await fetchGmailLabels(service)));
+	const { note, folder } = prepareEmailNote(plugin, accountName, thread, labelNames);
+	const isMarkdown = settings.email_format === 'markdown';
+	const extension = isMarkdown ? 'md' : 'htm';
+
+	// The earlier thread note is only rewritten while it holds nothing but this thread
+	const previousPath = plugin.ledger.findThread(threadId)?.path;
+	const isShared = plugin.ledger.getAll().some((entry) => entry.path === previousPath && entry.threadId !== threadId);
+	const previousFile = previousPath && !isShared ? app.vault.getAbstractFileByPath(previousPath) : null;
+	const existing = previousFile instanceof TFile && previousFile.extension === extension ? previousFile : undefined;
+	const targetFolder = existing ? existing.parent?.path ?? '/' : folder;
+
+	const sections: string[] = [];
+	const allAttachments: TFile[] = [];
+	for (const message of messages) {
+		const attachments = await saveEmailResources(plugin, service, message, targetFolder);
+		allAttachments.push(...attachments);
+
+		const sender = message.fromName || message.from;
+		const sent = message.date ? moment(message.date).format('YYYY-MM-DD HH:mm') : '';
+		if (isMarkdown) {
+			sections.push(`## ${sender} · ${sent}\n\n${collapseQuotedMarkdown(prepareEmailMarkdown(message))}`);
+		} else {
+			const body = collapseQuotedHtml(getHtmlBodyContent(prepareEmailContent(message)));
+			sections.push(appendAttachmentLinks(`<h3>${escapeHtml(sender)} · ${sent}</h3>${body}`, attachments, targetFolder));
+		}
+	}
+
+	let content: string;
+	if (isMarkdown) {
+		content = await note.generateFromTemplate(app, {
+			body: sections.join('\n\n---\n\n'),
+			attachments: allAttachments.map((file) => file.path)
+		});
+	} else {
+		const title = escapeHtml(thread.subject);
+		content = `<html><head><meta charset="utf-8"><title>${title}</title></head><body>${sections.join('<hr>')}</body></html>`;
+	}
+
+	let file: TFile;
+	if (existing) {
+		await app.vault.modify(existing, content);
+		file = existing;
+	} else {
+		// Thread notes are never appended to another note, as they are rewritten whole when the thread is updated
+		file = await saveFileToStack(app, targetFolder, getEmailFilename(settings, note), content, { collision: 'suffix' });
+	}
+	console.log(`Saved thread with ${messages.length} message(s) to: ${file.path}`);
+
+	const importedAt = new Date().toISOString();
+	await plugin.ledger.recordAll(
+		Object.fromEntries(
+			messages.map((message) => [
+				message.messageId,
+				{
+					path: file.path,
+					account: accountName,
+					subject: message.subject,
+					importedAt,
+					threadId,
+					rfcMessageId: message.rfcMessageId
+				}
+			])
+		)
+	);
+
+	return file;
+};
+
+/**
+ * Find the messages to import for an account.  When incremental sync is enabled and the query is a single label,
+ * only messages that had the label added since the previous run are returned.  Otherwise, or when Gmail no longer
+ * has the history of the previous run, the whole query runs again.
+ * @returns The message IDs, the history ID to save once the run is done, and the label ID when the IDs came from
+ * the history (messages may have lost the label again since).
+ */
+export const findMessageIdsToImport = async ({
+	plugin,
+	service,
+	accountName,
+	query
+}: {
+	plugin: GoogleLookupPlugin;
+	service: gmail_v1.Gmail;
+	accountName: string;
+	query: string;
+}): Promise<{ messageIds: string[]; historyId?: string; labelId?: string }> => {
+	const settings = plugin.settings!;
+	const state = settings.email_sync_state?.[accountName];
+	const labelName = getSingleQueryLabel(query);
+
+	if (settings.email_incremental_sync && state && state.query === query && labelName) {
+		const result = await fetchMessageIdsSinceHistory({ service, startHistoryId: state.historyId, labelName });
+		if (result) {
+			return result;
+		}
+		console.log(`Gmail history is not available for ${accountName}, running the full query`);
+	}
+
+	// the history ID is read before running the query so that nothing labelled during the run is missed next time
+	const historyId = await fetchCurrentHistoryId(service);
+	const messageIds = await fetchMessageIdsForQuery({ service, accountName, query });
+	return { messageIds, historyId };
+};
+
+/**
+ * Remember where the next incremental sync of an account starts.
+ */
+export const saveSyncState = async (plugin: GoogleLookupPlugin, accountName: string, historyId: string, query: string) => {
+	plugin.settings!.email_sync_state = {
+		...plugin.settings!.email_sync_state,
+		[accountName]: { historyId, query }
+	};
+	await plugin.saveSettings();
+};
+
+/**
+ * Prepare the import for an account: its Gmail service, query and labels, and the Gmail actions to apply after import.
+ */
+const createImportContext = async (plugin: GoogleLookupPlugin, account: GoogleAccount): Promise<AccountImportContext> => {
+	const service = await getGmailService({
+		credentials: GoogleAccount.credentials,
+		token: account.token!
+	});
+	const query = getEmailQuery(plugin, account.accountName);
+	const dryRun = !!plugin.settings!.email_actions_dry_run;
+	const labelChanges = await resolveLabelChanges({
+		service,
+		query,
+		actions: getPostImportActions(plugin)
+	});
+
+	return {
+		accountName: account.accountName,
+		service,
+		query,
+		labels: await fetchGmailLabels(service),
+		labelChanges,
+		dryRun,
+		importedThreadIds: new Set<string>()
+	};
+};
+
+/**
+ * Apply the post-import Gmail actions to an email; a failure is reported but does not undo the import.  In a dry run,
+ * the email is marked in the import ledger so that the actions are applied by the first import that is not a dry run.
+ * @returns Whether the actions were applied.
+ */
+const applyLabelChanges = async (
+	plugin: GoogleLookupPlugin,
+	context: AccountImportContext,
+	messageId: string,
+	notify: (message: string) => void
+): Promise<boolean> => {
+	try {
+		await modifyEmailLabels({
+			service: context.service,
+			messageId,
+			changes: context.labelChanges,
+			dryRun: context.dryRun
+		});
+	} catch (error) {
+		const err = error as Error;
+		console.error(`Failed to update Gmail labels for message ${messageId}: ${err.message}`);
+		notify(`Email was saved but Gmail labels could not be updated: ${err.message}`);
+		return false;
+	}
+
+	if (context.dryRun && hasLabelChanges(context.labelChanges)) {
+		await plugin.ledger.setActionsPending([messageId], true);
+		return false;
+	}
+	return true;
+};
+
+/**
+ * Apply the post-import Gmail actions to the emails of an account that were imported while the actions were only
+ * previewed.  Emails whose actions fail stay marked, so that the next import tries again.
+ * @returns The number of emails the actions were applied to.
+ */
+const applyPendingLabelChanges = async (
+	plugin: GoogleLookupPlugin,
+	context: AccountImportContext,
+	notify: (message: string) => void
+): Promise<number> => {
+	const messageIds = plugin.ledger
+		.getAll()
+		.filter((entry) => entry.actionsPending && entry.account === context.accountName)
+		.map((entry) => entry.messageId);
+	if (context.dryRun || messageIds.length === 0) {
+		return 0;
+	}
+
+	const applied: string[] = [];
+	for (const messageId of messageIds) {
+		if (await applyLabelChanges(plugin, context, messageId, notify)) {
+			applied.push(messageId);
+		}
+	}
+	await plugin.ledger.setActionsPending(applied, false);
+	return applied.length;
+};
+
+/**
+ * Save an email of an account, as a note of its own or as part of its thread note, and then apply the post-import
+ * Gmail actions to it.  A thread note is saved only once per import, as it holds every message of the thread.
+ * Throws when the email cannot be saved.
+ */
+export const importPendingEmail = async (
+	plugin: GoogleLookupPlugin,
+	context: AccountImportContext,
+	email: EmailContent,
+	notify: (message: string) => void
+) => {
+	const { service, accountName, labels, importedThreadIds } = context;
+
+	if (!plugin.settings!.email_group_threads) {
+		await importEmail({ plugin, service, accountName, email, labels });
+	} else if (!importedThreadIds.has(email.threadId)) {
+		await importEmailThread({ plugin, service, accountName, threadId: email.threadId, labels });
+		importedThreadIds.add(email.threadId);
+	}
+
+	// Gmail actions only run once the email has been saved
+	await applyLabelChanges(plugin, context, email.messageId, notify);
+};
+
+/**
+ * Fetch the whole content of an email listed by `fetchPendingEmails`, which has no bodies or attachments.
+ */
+export const fetchPendingEmailContent = async ({ service }: AccountImportContext, email: EmailContent): Promise<EmailContent> => {
+	const [{ email: content, error }] = await fetchMessages({ service, messageIds: [email.messageId] });
+	if (!content) {
+		throw new Error(`Failed to fetch email: ${error}`);
+	}
+	return content;
+};
+
+/**
+ * Mark an email as processed without saving it: the post-import Gmail actions are applied to it, and it is added
+ * to the import ledger as skipped so that later imports leave it out.
+ */
+export const skipPendingEmail = async (
+	plugin: GoogleLookupPlugin,
+	context: AccountImportContext,
+	email: EmailContent,
+	notify: (message: string) => void
+) => {
+	await plugin.ledger.record(email.messageId, {
+		path: '',
+		account: context.accountName,
+		subject: email.subject,
+		importedAt: new Date().toISOString(),
+		skipped: true
+	});
+	await applyLabelChanges(plugin, context, email.messageId, notify);
+};
+
+/**
+ * Get the vault path an email would be saved to, e.g. to show it before importing.
+ */
+export const getEmailTargetPath = (plugin: GoogleLookupPlugin, context: AccountImportContext, email: EmailContent) => {
+	const settings = plugin.settings!;
+	const threadPath = settings.email_group_threads ? plugin.ledger.findThread(email.threadId)?.path : undefined;
+	if (threadPath) {
+		return threadPath;
+	}
+
+	const labelNames = getLabelNames(email.labelIds, context.labels);
+	const { note, folder } = prepareEmailNote(plugin, context.accountName, email, labelNames);
+	return normalizePath(path.posix.join(folder, getEmailFilename(settings, note)));
+};
+
+/**
+ * Fetch the emails that the next import would save for every account, or only the given accounts, so that they can be
+ * reviewed first.  Accounts that fail are reported in `errors` and left out.
+ * Only the headers, labels and attachment names of the emails are fetched, without their bodies, and at most
+ * EMAIL_PREVIEW_MAX_EMAILS emails per account, so that broad queries do not load thousands of full messages.  Use `fetchPendingEmailContent` before importing one.
+ * @param onProgress - Called with a status message while emails are fetched.
+ */
+export const fetchPendingEmails = async (
+	plugin: GoogleLookupPlugin,
+	{ accountNames, onProgress }: { accountNames?: string[]; onProgress?: (message: string) => void } = {}
+): Promise<{ pending: PendingEmails[]; errors: string[] }> => {
+	const pending: PendingEmails[] = [];
+	const errors: string[] = [];
+
+	for (const account of GoogleAccount.getAllAccounts()) {
+		if (accountNames && !accountNames.includes(account.accountName)) {
+			continue;
+		}
+		if (!account.token) {
+			errors.push(`No token found for account: ${account.accountName}`);
+			continue;
+		}
+
+		try {
+			const context = await createImportContext(plugin, account);
+			const { messageIds, historyId, labelId } = await findMessageIdsToImport({
+				plugin,
+				service: context.service,
+				accountName: account.accountName,
+				query: context.query
+			});
+			const newMessageIds = messageIds.filter((messageId) => !plugin.ledger.has(messageId));
+			const previewIds = newMessageIds.slice(0, EMAIL_PREVIEW_MAX_EMAILS);
+
+			let fetchedCount = 0;
+			const results = await fetchMessages({
+				service: context.service,
+				messageIds: previewIds,
+				format: 'preview',
+				onFetched: () => {
+					fetchedCount++;
+					onProgress?.(`Fetching emails for ${account.accountName}: ${fetchedCount} of ${previewIds.length}`);
+				}
+			});
+
+			const emails: EmailContent[] = [];
+			let fetchFailed = false;
+			for (const { email, error } of results) {
+				if (!email) {
+					errors.push(`${account.accountName}: ${error}`);
+					fetchFailed = true;
+				} else if (!labelId || email.labelIds.includes(labelId)) {
+					// Messages from the history may have had the label removed again since
+					emails.push(email);
+				}
+			}
+			// The sync can only move forward when every pending email is listed
+			pending.push({
+				...context,
+				emails,
+				historyId: previewIds.length === newMessageIds.length ? historyId : undefined,
+				fetchFailed,
+				total: newMessageIds.length
+			});
+		} catch (error) {
+			const err = error as Error;
+			console.error(`Error fetching emails for account ${account.accountName}: ${err.message}`);
+			errors.push(`${account.accountName}: ${err.message}`);
+		}
+	}
+
+	return { pending, errors };
+};
+
+/**
+ * Import the emails matching the configured query for every account, or only the given accounts.
+ * Errors are collected per account so that one failing account does not stop the others.
+ * When `silent` is set, messages only go to the console and no notices are shown.
+ */
+export const runEmailImport = async (
+	plugin: GoogleLookupPlugin,
+	{ accountNames, silent }: EmailImportOptions = {}
+): Promise<EmailImportResult> => {
+	const result: EmailImportResult = {
+		imported: 0,
+		failed: 0,
+		errors: [],
+		accounts: [],
+		startedAt: new Date().toISOString(),
+		finishedAt: '',
+		background: silent
+	};
+	const notify = (message: string) => {
+		console.log(message);
+		if (!silent) {
+			new Notice(message);
+		}
+	};
+
+	for (const account of GoogleAccount.getAllAccounts()) {
+		if (accountNames && !accountNames.includes(account.accountName)) {
+			continue;
+		}
+
+		const report: EmailAccountReport = {
+			accountName: account.accountName,
+			query: getEmailQuery(plugin, account.accountName),
+			found: 0,
+			imported: 0,
+			skipped: 0,
+			failed: 0,
+			errors: []
+		};
+		result.accounts.push(report);
+		const addError = (message: string) => {
+			report.failed++;
+			report.errors.push(message);
+			result.errors.push(`${account.accountName}: ${message}`);
+		};
+
+		if (!account.token) {
+			// Not counted as a failure, as the account simply has not been connected yet
+			notify(`No token found for account: ${account.accountName}`);
+			report.errors.push('No token found for account');
+			result.errors.push(`${account.accountName}: No token found for account`);
+			continue;
+		}
+
+		try {
+			const context = await createImportContext(plugin, account);
+			const { query, labelChanges, dryRun } = context;
+			report.query = query;
+
+			const appliedCount = await applyPendingLabelChanges(plugin, context, notify);
+			if (appliedCount > 0) {
+				notify(
+					`Applied the Gmail actions to ${appliedCount} email(s) imported while they were previewed for account: ` +
+						account.accountName
+				);
+			}
+
+			const {
+				messageIds: allMessageIds,
+				historyId,
+				labelId
+			} = await findMessageIdsToImport({
+				plugin,
+				service: context.service,
+				accountName: account.accountName,
+				query
+			});
+			const messageIds = allMessageIds.filter((messageId) => !plugin.ledger.has(messageId));
+			const skippedCount = allMessageIds.length - messageIds.length;
+			report.found = allMessageIds.length;
+			report.skipped = skippedCount;
+
+			if (messageIds.length === 0) {
+				if (historyId) {
+					await saveSyncState(plugin, account.accountName, historyId, query);
+				}
+				notify(
+					`No new emails matching "${query}" for account: ${account.accountName}` +
+						(skippedCount > 0 ? ` (${skippedCount} already imported)` : '')
+				);
+				continue;
+			}
+			notify(
+				`Processing ${messageIds.length} email(s) matching "${query}" for account: ${account.accountName}` +
+					(skippedCount > 0 ? `, skipping ${skippedCount} already imported` : '')
+			);
+
+			let fetchedCount = 0;
+			let processedCount = 0;
+
+			const progress = silent ? undefined : new ProgressNotice(`Importing emails for ${account.accountName}...`);
+			const updateProgress = () => {
+				progress?.setMessage(
+					`Importing emails for ${account.accountName}: fetched ${fetchedCount}, saved ${processedCount} of ${messageIds.length}`
+				);
+			};
+
+			try {
+				// Messages are fetched and saved in batches so that large queries are not held in memory all at once
+				for (let i = 0; i < messageIds.length; i += EMAIL_IMPORT_BATCH_SIZE) {
+					const results = await fetchMessages({
+						service: context.service,
+						messageIds: messageIds.slice(i, i + EMAIL_IMPORT_BATCH_SIZE),
+						onFetched: () => {
+							fetchedCount++;
+							updateProgress();
+						}
+					});
+
+					for (const { email, error: fetchError } of results) {
+						processedCount++;
+						updateProgress();
+
+						if (!email) {
+							notify(`Failed to fetch email: ${fetchError}`);
+							addError(`Failed to fetch email: ${fetchError}`);
+							continue;
+						}
+
+						// Messages from the history may have had the label removed again since
+						if (labelId && !email.labelIds.includes(labelId)) {
+							report.skipped++;
+							continue;
+						}
+
+						try {
+							await importPendingEmail(plugin, context, email, notify);
+							report.imported++;
+						} catch (error) {
+							const err = error as Error;
+							console.error(`Failed to process email: ${err.message}`);
+							notify(`Failed to process email: ${err.message}`);
+							addError(`Failed to import "${email.subject}": ${err.message}`);
+						}
+					}
+				}
+			} finally {
+				progress?.hide();
+			}
+
+			notify(`Imported ${report.imported} of ${messageIds.length} email(s) for account: ${account.accountName}`);
+
+			// Failed emails are retried on the next run, so the sync only moves forward when nothing failed
+			if (historyId && report.failed === 0) {
+				await saveSyncState(plugin, account.accountName, historyId, query);
+			}
+			if (dryRun && labelChanges.description && report.imported > 0) {
+				notify(`Preview: would ${labelChanges.description} on ${report.imported} email(s) for account: ${account.accountName}`);
+			}
+		} catch (error) {
+			const err = error as Error;
+			console.error(`Error processing emails for account ${account.accountName}: ${err.message}`);
+			if (!silent) {
+				new Notice(`Error processing emails for account ${account.accountName}: ${err.message}`);
+			}
+			report.accountError = err.message;
+			addError(err.message);
+		}
+	}
+
+	result.imported = result.accounts.reduce((sum, report) => sum + report.imported, 0);
+	result.failed = result.accounts.reduce((sum, report) => sum + report.failed, 0);
+	result.finishedAt = new Date().toISOString();
+	return result;
+};
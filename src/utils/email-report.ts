@@ -0,0 +1,61 @@
+import GoogleLookupPlugin from '@/main';
+import { EmailImportResult } from '@/types';
+import { moment, normalizePath, TFile } from 'obsidian';
+import * as path from 'path';
+import { ensureFolder } from './files';
+
+// Keep the text of a table cell from breaking the Markdown table
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+/**
+ * Describe an email import as a Markdown section: a heading with the time of the run, a table with the number of
+ * emails found, imported, skipped and failed per account, and the errors of the run.
+ */
+export const formatEmailImportReport = (result: EmailImportResult): string => {
+	const heading = `## ${moment(result.startedAt).format('YYYY-MM-DD HH:mm')}${result.background ? ' (background import)' : ''}`;
+	const lines = [heading, ''];
+
+	if (result.accounts.length > 0) {
+		lines.push('| Account | Query | Found | Imported | Skipped | Failed |', '| --- | --- | --- | --- | --- | --- |');
+		for (const report of result.accounts) {
+			const cells = [report.accountName, report.query, report.found, report.imported, report.skipped, report.failed];
+			lines.push(`| ${cells.map((cell) => escapeCell(String(cell))).join(' | ')} |`);
+		}
+	} else {
+		lines.push('No accounts were imported.');
+	}
+
+	if (result.errors.length > 0) {
+		lines.push('', ...result.errors.map((error) => `- ${error.replace(/\r?\n/g, ' ')}`));
+	}
+	return lines.join('\n');
+};
+
+/**
+ * Add the report of an email import to the end of the import log note, creating the note when it does not exist.
+ * Background runs that found no emails and had no errors are left out, so that the log only shows runs that did
+ * something.
+ */
+export const appendEmailImportLog = async (plugin: GoogleLookupPlugin, result: EmailImportResult) => {
+	const { app } = plugin;
+	const logNote = plugin.settings?.email_import_log_note?.trim();
+	if (!logNote) {
+		return;
+	}
+	if (result.background && result.errors.length === 0 && result.accounts.every((report) => report.found === 0)) {
+		return;
+	}
+
+	const logPath = normalizePath(logNote.endsWith('.md') ? logNote : `${logNote}.md`);
+	const report = formatEmailImportReport(result);
+	const existing = app.vault.getAbstractFileByPath(logPath);
+	if (existing instanceof TFile) {
+		await app.vault.append(existing, `\n\n${report}\n`);
+	} else {
+		const folder = path.posix.dirname(logPath);
+		if (folder !== '.') {
+			await ensureFolder(app, folder);
+		}
+		await app.vault.create(logPath, `# Email Import Log\n\n${report}\n`);
+	}
+};
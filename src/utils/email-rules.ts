@@ -0,0 +1,101 @@
+import { EmailRoutingRule } from '@/types';
+
+/** The parts of an email that routing rules are matched against */
+export type EmailRuleSample = {
+	from: string;
+	subject: string;
+	labelNames: string[];
+	accountName: string;
+};
+
+export const createEmptyRule = (): EmailRoutingRule => ({
+	name: '',
+	enabled: true,
+	from: '',
+	subject: '',
+	label: '',
+	account: '',
+	folder: '',
+	filenameFormat: '',
+	tags: '',
+	template: ''
+});
+
+const splitList = (value: string): string[] => {
+	return value
+		.split(',')
+		.map((v) => v.trim().toLowerCase())
+		.filter((v) => v.length > 0);
+};
+
+// An entry with a local part ("someone@example.com") matches the address, anything else ("example.com" or
+// "@example.com") matches the domain and its subdomains
+const matchesSender = (patterns: string[], from: string): boolean => {
+	const address = from.trim().toLowerCase();
+	const domain = address.split('@').pop() ?? '';
+
+	return patterns.some((pattern) => {
+		if (pattern.includes('@') && !pattern.startsWith('@')) {
+			return address === pattern;
+		}
+		const patternDomain = pattern.replace(/^@/, '');
+		return domain === patternDomain || domain.endsWith(`.${patternDomain}`);
+	});
+};
+
+const matchesSubject = (pattern: string, subject: string): boolean => {
+	try {
+		return new RegExp(pattern, 'i').test(subject);
+	} catch (err: any) {
+		console.warn(`Invalid subject pattern in email rule: ${pattern} (${err.message})`);
+		return false;
+	}
+};
+
+/**
+ * Check whether an email matches every condition of a rule.  Empty conditions match any email, so a rule without
+ * conditions matches every email.
+ */
+export const ruleMatches = (rule: EmailRoutingRule, sample: EmailRuleSample): boolean => {
+	if (!rule.enabled) {
+		return false;
+	}
+
+	const senders = splitList(rule.from);
+	if (senders.length > 0 && !matchesSender(senders, sample.from)) {
+		return false;
+	}
+	if (rule.subject.trim() && !matchesSubject(rule.subject.trim(), sample.subject)) {
+		return false;
+	}
+	const label = rule.label.trim().toLowerCase();
+	if (label && !sample.labelNames.some((name) => name.toLowerCase() === label)) {
+		return false;
+	}
+	const account = rule.account.trim().toLowerCase();
+	if (account && sample.accountName.toLowerCase() !== account) {
+		return false;
+	}
+
+	return true;
+};
+
+/**
+ * Find the first enabled rule that matches an email.
+ * @returns The rule and its position in the list, or undefined when no rule matches.
+ */
+export const findMatchingRule = (
+	rules: EmailRoutingRule[] | undefined,
+	sample: EmailRuleSample
+): { rule: EmailRoutingRule; index: number } | undefined => {
+	const index = (rules ?? []).findIndex((rule) => ruleMatches(rule, sample));
+	return index >= 0 ? { rule: rules![index], index } : undefined;
+};
+
+// Get the tags of a rule without the leading "#"
+export const getRuleTags = (rule: EmailRoutingRule | undefined): string[] => {
+	return (rule?.tags ?? '')
+		.split(',')
+		.map((tag) => tag.trim().replace(/^#/, ''))
+		.filter((tag) => tag.length > 0);
+};
@@ -1,6 +1,8 @@
-import { App, Editor, MarkdownView, Notice, TFile } from 'obsidian';
+import { App, Editor, MarkdownView, Notice, TFile, TFolder, htmlToMarkdown, moment, normalizePath } from 'obsidian';
+import { EmailAttachment, EmailContent, EmailFilenameCollision, RemoteImageMode } from '@/types';
+import { messageToEmailContent } from './mime';
+import { escapeHtml } from './sanitize';
 import axios from 'axios';
-import * as fs from 'fs';
 import * as path from 'path';
 
 const isViewInSourceMode = (view: MarkdownView | null) => {
@@ -50,90 +52,288 @@ export function removeInvalidFileNameChars(filename: string): string {
     return filename.replace(/[<>:"/\\|?*]/g, '_');
 }
 
-// Define fetchImageWithFallback to handle image fetching
-const fetchImageWithFallback = async (url: string, savePath: string): Promise<string | null> => {
+// Fetch a remote image, returning null if it cannot be downloaded (e.g. CORS or network errors)
+export const fetchRemoteImage = async (url: string): Promise<{ data: Buffer; mimeType: string } | null> => {
     try {
         const response = await axios.get(url, { responseType: 'arraybuffer' });
-
-        // Convert ArrayBuffer to Buffer
-        const buffer = Buffer.from(response.data);
-
-        // Convert the image to Base64
-        const base64Data = buffer.toString('base64');
         const mimeType = response.headers['content-type'] || 'image/png'; // Default to PNG if content type is missing
-        return `data:${mimeType};base64,${base64Data}`; // Return Base64-encoded data
+        return { data: Buffer.from(response.data), mimeType };
     } catch (error: any) {
-        const errorMessage = error?.message || '';
-
-        // Use regex to match common network or CORS-related errors
-        const networkErrorRegex = /(CORS|Access-Control-Allow-Origin|Network Error)/i;
-        if (networkErrorRegex.test(errorMessage)) {
-            return null; // Skip the image if CORS or network error occurs
-        }
-
-        // Log unexpected errors for debugging
+        console.warn(`Unable to download image ${url}: ${error?.message || ''}`);
         return null;
     }
 };
 
-const saveImagesLocally = async (imageUrls: string[], savePath: string): Promise<string[]> => {
-    const base64ImageData: string[] = [];
-    for (const url of imageUrls) {
-        try {
-            const base64Data = await fetchImageWithFallback(url, savePath); // Fetch and convert to Base64
-            if (base64Data) {
-                base64ImageData.push(base64Data); // Add the Base64 data to the array
+// Pick a file name for an image, adding an extension based on the MIME type when the name has none
+const getImageFileName = (name: string, mimeType: string): string => {
+    const baseName = decodeURIComponent(name.split(/[?#]/)[0].split('/').pop() || '').trim() || 'image';
+    if (path.extname(baseName)) {
+        return baseName;
+    }
+    const extension = mimeType.split('/')[1]?.split(/[;+]/)[0] || 'png';
+    return `${baseName}.${extension === 'jpeg' ? 'jpg' : extension}`;
+};
+
+// Normalize a Content-ID header or a cid: URL so that they can be compared
+const normalizeContentId = (contentId: string): string => {
+    return decodeURIComponent(contentId.replace(/^cid:/i, '')).replace(/^<|>$/g, '').trim().toLowerCase();
+};
+
+/**
+ * Save the images of an HTML email as files in the vault and point the HTML at them.
+ * Inline `cid:` images are matched to the MIME parts of the email by their Content-ID.  Remote images are downloaded,
+ * kept as links or dropped, depending on `remoteImages`.
+ * @param email - The email, including its HTML body and its attachments.
+ * @param imageFolder - Vault path of the folder the images are saved to.
+ * @param emailFolder - Vault path of the folder the email is saved to; image links are relative to it.
+ * @param remoteImages - What to do with remote (http) images.
+ * @param loadAttachment - Loads the contents of a MIME part that is stored as a Gmail attachment.
+ * @returns The rewritten HTML and the MIME parts that were used as inline images.
+ */
+export async function saveEmailImages({
+    app,
+    email,
+    imageFolder,
+    emailFolder,
+    remoteImages,
+    loadAttachment,
+}: {
+    app: App;
+    email: EmailContent;
+    imageFolder: string;
+    emailFolder: string;
+    remoteImages: RemoteImageMode;
+    loadAttachment: (attachment: EmailAttachment) => Promise<Buffer>;
+}): Promise<{ html: string; inlineImages: EmailAttachment[] }> {
+    const html = email.HtmlBody || '';
+    const inlineImages: EmailAttachment[] = [];
+    const savedImages: Record<string, string | null> = {};
+
+    const toRelativeLink = (file: TFile) => encodeURI(path.posix.relative(emailFolder, file.path));
+
+    const saveImage = async (src: string): Promise<string | null> => {
+        if (/^cid:/i.test(src)) {
+            const contentId = normalizeContentId(src);
+            const part = email.attachments.find((a) => a.contentId && normalizeContentId(a.contentId) === contentId);
+            if (!part) {
+                return null;
             }
-        } catch (error: any) {
-            const errorMessage = error?.message || '';
+            const data = await loadAttachment(part);
+            inlineImages.push(part);
+            return toRelativeLink(await saveBinaryFile(app, imageFolder, getImageFileName(part.filename || contentId, part.mimeType), data));
+        }
+
+        if (/^https?:/i.test(src)) {
+            if (remoteImages === 'link') {
+                return src;
+            }
+            if (remoteImages === 'remove') {
+                return null;
+            }
+            const image = await fetchRemoteImage(src);
+            return image ? toRelativeLink(await saveBinaryFile(app, imageFolder, getImageFileName(src, image.mimeType), image.data)) : src;
+        }
 
-            // Use regex to match common network or CORS-related errors
-            const networkErrorRegex = /(CORS|Access-Control-Allow-Origin|Network Error)/i;
-            if (networkErrorRegex.test(errorMessage)) {
-                continue; // Skip this image and move to the next
+        return src;
+    };
+
+    // Images are saved one at a time so that identical images are written to the vault only once
+    const imgTags = html.match(/<img\b[^>]*>/gi) || [];
+    for (const tag of imgTags) {
+        const src = tag.match(/\bsrc\s*=\s*(["'])(.*?)\1/i)?.[2];
+        if (src && !(src in savedImages)) {
+            try {
+                savedImages[src] = await saveImage(src.replace(/&amp;/g, '&'));
+            } catch (err: any) {
+                console.error(`Failed to save image ${src}: ${err.message}`);
+                savedImages[src] = src;
             }
         }
     }
-    return base64ImageData; // Always return an array
-};
 
-export function saveFileToStack(vaultRoot: string, subfolderStructure: string, filename: string, content: string): string {
-    const fullSubfolderStructure = path.join('Chronological', 'Email', subfolderStructure);
+    const rewritten = html.replace(/<img\b[^>]*>/gi, (tag) => {
+        const srcMatch = tag.match(/\bsrc\s*=\s*(["'])(.*?)\1/i);
+        if (!srcMatch) {
+            return tag;
+        }
+        const newSrc = savedImages[srcMatch[2]];
+        return newSrc === null ? '' : tag.replace(srcMatch[0], `src="${newSrc}"`);
+    });
 
-    const dateMatch = filename.match(/^(\d{4})(\d{2})\d{2}/);
-    if (!dateMatch) throw new Error('Filename does not contain a valid date.');
+    return { html: rewritten, inlineImages };
+}
 
-    const year = dateMatch[1];
-    const month = dateMatch[2];
+/**
+ * Build a folder path from a pattern such as "YYYY/MM - MMMM/{{account}}".
+ * `{{field}}` placeholders are replaced with the given values, and the rest of the pattern is a moment.js date format,
+ * so literal text has to be escaped with square brackets, e.g. "YYYY/[Week] ww".
+ */
+export function formatPathPattern(pattern: string, date: Date, fields: Record<string, string | undefined>): string {
+    const formatted = pattern
+        .split(/(\{\{\w+\}\})/)
+        .map((part) => {
+            const field = part.match(/^\{\{(\w+)\}\}$/);
+            if (field) {
+                return removeInvalidFileNameChars(fields[field[1]] ?? '');
+            }
+            return part ? moment(date).format(part) : '';
+        })
+        .join('');
+
+    // Empty segments (e.g. from an empty field) are dropped, and the path may not leave the base folder
+    return formatted
+        .split(/[\\/]/)
+        .map((segment) => segment.trim())
+        .filter((segment) => segment && segment !== '.' && segment !== '..')
+        .join('/');
+}
 
-    const subfolder = fullSubfolderStructure.replace('YYYY', year).replace('YYYY-MM', `${year}-${month}`);
-    const targetFolder = path.join(vaultRoot, subfolder);
+// Get the vault path of the folder an email file is saved to, from the base folder and the subfolder pattern
+export function getStackFolder(
+    baseFolder: string,
+    subfolderPattern: string,
+    date: Date,
+    fields: Record<string, string | undefined>
+): string {
+    return normalizePath(path.posix.join(baseFolder.trim() || '/', formatPathPattern(subfolderPattern, date, fields)));
+}
 
-    if (!fs.existsSync(targetFolder)) {
-        fs.mkdirSync(targetFolder, { recursive: true });
+// Create a vault folder and its parents when they do not exist yet
+export async function ensureFolder(app: App, folder: string): Promise<void> {
+    const folderPath = normalizePath(folder);
+    if (folderPath === '/' || app.vault.getAbstractFileByPath(folderPath) instanceof TFolder) {
+        return;
+    }
+    const parent = path.posix.dirname(folderPath);
+    if (parent !== '.' && parent !== '/') {
+        await ensureFolder(app, parent);
+    }
+    if (!app.vault.getAbstractFileByPath(folderPath)) {
+        await app.vault.createFolder(folderPath);
     }
+}
+
+const getVaultFile = (app: App, filePath: string): TFile | undefined => {
+    const file = app.vault.getAbstractFileByPath(normalizePath(filePath));
+    return file instanceof TFile ? file : undefined;
+};
 
-    const targetPath = path.join(targetFolder, filename);
+/**
+ * Save an email file into a vault folder, creating the folder when needed.  When a file with the same name already
+ * exists, the email is either saved under a name with a numeric suffix or appended to the existing file, as configured.
+ * @param replacePath - Vault path of an earlier import of the same email that holds only that email, which is
+ * overwritten instead.
+ * @param keepPath - Vault path of an earlier import of the same email that other emails were appended to.  It is left
+ * as it is, and the email is saved under a name with a numeric suffix instead of being appended to it again.
+ * @returns The saved file.
+ */
+export async function saveFileToStack(
+    app: App,
+    targetFolder: string,
+    filename: string,
+    content: string,
+    {
+        collision = 'suffix',
+        replacePath,
+        keepPath
+    }: { collision?: EmailFilenameCollision; replacePath?: string; keepPath?: string } = {}
+): Promise<TFile> {
+    await ensureFolder(app, targetFolder);
+
+    const { name, ext } = path.posix.parse(filename);
+    let targetPath = normalizePath(path.posix.join(targetFolder, filename));
 
     try {
-        fs.writeFileSync(targetPath, content, 'utf8');
+        let existing = getVaultFile(app, targetPath);
+        if (existing && existing.path === replacePath) {
+            await app.vault.modify(existing, content);
+            return existing;
+        }
+        if (existing && collision === 'append' && existing.path !== keepPath) {
+            if (ext === '.md') {
+                await app.vault.append(existing, getAppendedMarkdown(content));
+            } else {
+                await app.vault.process(existing, (data) => appendHtmlBody(data, content));
+            }
+            return existing;
+        }
+        for (let i = 2; existing && existing.path !== replacePath; i++) {
+            targetPath = normalizePath(path.posix.join(targetFolder, `${name} (${i})${ext}`));
+            existing = getVaultFile(app, targetPath);
+        }
+        if (existing) {
+            await app.vault.modify(existing, content);
+            return existing;
+        }
+        return await app.vault.create(targetPath, content);
     } catch (error: any) {
         console.error(`Failed to write file: ${error.message}`);
         throw error;
     }
+}
+
+// Separate an email from the one before it in the same Markdown file, leaving out its frontmatter
+const getAppendedMarkdown = (content: string): string => {
+    return `\n\n---\n\n${content.replace(/^---\n[\s\S]*?\n---\n/, '').trim()}\n`;
+};
+
+// Add the body of an HTML email to the end of the body of an existing HTML file, so that it stays one document
+const appendHtmlBody = (existing: string, content: string): string => {
+    const body = content.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? content;
+    const end = existing.search(/<\/body>(?![\s\S]*<\/body>)/i);
+    const appended = `\n<hr>\n${body}\n`;
+    return end >= 0 ? existing.slice(0, end) + appended + existing.slice(end) : existing + appended;
+};
+
+// Check an attachment against the allowed MIME types (e.g. "application/pdf, image/*") and the maximum size
+export function shouldSaveAttachment(attachment: EmailAttachment, mimeTypes: string, maxSizeMb: number): boolean {
+    if (maxSizeMb > 0 && attachment.size > maxSizeMb * 1024 * 1024) {
+        return false;
+    }
 
-    return targetPath;
+    const patterns = mimeTypes
+        .split(',')
+        .map((t) => t.trim().toLowerCase())
+        .filter((t) => t.length > 0);
+    if (patterns.length === 0) {
+        return true;
+    }
+
+    const mimeType = attachment.mimeType.toLowerCase();
+    return patterns.some((p) => (p.endsWith('/*') ? mimeType.startsWith(p.slice(0, -1)) : mimeType === p));
+}
+
+/**
+ * Save a binary file into a vault folder, creating the folder when needed.  When a different file with the same name
+ * already exists, a numeric suffix is added to the name.  An identical file is reused.
+ * @returns The saved file.
+ */
+export async function saveBinaryFile(app: App, folder: string, filename: string, data: Buffer): Promise<TFile> {
+    await ensureFolder(app, folder);
+
+    const { name, ext } = path.posix.parse(removeInvalidFileNameChars(filename));
+    let targetPath = normalizePath(path.posix.join(folder, `${name}${ext}`));
+    for (let i = 1; ; i++) {
+        const existing = getVaultFile(app, targetPath);
+        if (!existing) {
+            break;
+        }
+        if (Buffer.from(await app.vault.readBinary(existing)).equals(data)) {
+            return existing;
+        }
+        targetPath = normalizePath(path.posix.join(folder, `${name} (${i})${ext}`));
+    }
+
+    return await app.vault.createBinary(targetPath, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
 }
 
-export async function prepareEmailContent(email: { HtmlBody?: string; TextBody?: string }, savePath: string): Promise<string> {
+export function prepareEmailContent(email: { HtmlBody?: string; TextBody?: string }): string {
     let theBody = '';
 
     if (email.HtmlBody) {
-        const imageUrls = extractImageUrls(email.HtmlBody); // Extract image URLs from HTML
-        const base64ImageData = await saveImagesLocally(imageUrls, savePath); // Fetch and convert to Base64
-        theBody = replaceImageUrlsWithBase64(email.HtmlBody, imageUrls, base64ImageData); // Replace URLs with Base64 data
+        theBody = email.HtmlBody;
     } else if (email.TextBody) {
-        theBody = `<html><body><pre>${email.TextBody}</pre></body></html>`;
+        theBody = `<html><head><meta charset="utf-8"></head><body><pre>${escapeHtml(email.TextBody)}</pre></body></html>`;
     } else {
         theBody = '<html><body><p>No content available.</p></body></html>';
     }
@@ -141,33 +341,77 @@ export async function prepareEmailContent(email: { HtmlBody?: string; TextBody?:
     return theBody;
 }
 
-// Helper function to replace image URLs with Base64 data in HTML
-const replaceImageUrlsWithBase64 = (html: string, urls: string[], base64Data: string[]): string => {
-    let updatedHtml = html;
-    urls.forEach((url, index) => {
-        const base64 = base64Data[index];
-        if (base64) {
-            updatedHtml = updatedHtml.replace(url, base64); // Replace the URL with Base64 data
-        } else {
-            updatedHtml = updatedHtml.replace(url, ''); // Remove the image or replace with a placeholder
+// Convert an email body to Markdown
+export function prepareEmailMarkdown(email: { HtmlBody?: string; TextBody?: string }): string {
+    if (email.HtmlBody) {
+        return htmlToMarkdown(email.HtmlBody).trim();
+    }
+    if (email.TextBody) {
+        return email.TextBody.trim();
+    }
+    return 'No content available.';
+}
+
+// Fold quoted replies ("> ..." lines and the "On ... wrote:" line above them) into collapsed callouts
+export function collapseQuotedMarkdown(markdown: string): string {
+    const lines = markdown.split('\n');
+    const result: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].startsWith('>')) {
+            result.push(lines[i]);
+            continue;
         }
-    });
-    return updatedHtml;
-};
 
-// Helper function to extract image URLs from HTML
-const extractImageUrls = (html: string): string[] => {
-    const regex = /<img[^>]+src="([^">]+)"/g;
-    const urls: string[] = [];
+        const quote: string[] = [];
+        for (; i < lines.length && lines[i].startsWith('>'); i++) {
+            quote.push(lines[i]);
+        }
+        i--;
+
+        let title = 'Quoted text';
+        // The attribution line may be separated from the quote by a blank line
+        let previous = result.length - 1;
+        if (previous >= 0 && result[previous].trim() === '') {
+            previous--;
+        }
+        if (previous >= 0 && /wrote:\s*$/i.test(result[previous])) {
+            title = result[previous].trim();
+            result.splice(previous);
+        }
+        result.push(`> [!quote]- ${title}`, ...quote);
+    }
+
+    return result.join('\n');
+}
+
+// Wrap quoted replies (the outermost blockquotes) into collapsed <details> elements
+export function collapseQuotedHtml(html: string): string {
+    const tagRegex = /<(\/?)blockquote\b[^>]*>/gi;
+    let result = '';
+    let depth = 0;
+    let start = 0;
+    let last = 0;
     let match;
-    while ((match = regex.exec(html)) !== null) {
-        urls.push(match[1]);
+
+    while ((match = tagRegex.exec(html)) !== null) {
+        if (!match[1]) {
+            if (depth === 0) {
+                start = match.index;
+            }
+            depth++;
+        } else if (depth > 0 && --depth === 0) {
+            const end = match.index + match[0].length;
+            result += `${html.slice(last, start)}<details><summary>Quoted text</summary>${html.slice(start, end)}</details>`;
+            last = end;
+        }
     }
-    return urls;
-};
+
+    return result + html.slice(last);
+}
 
 // Fetch email content by message ID
-export async function fetchEmailContent({ service, messageId }: { service: any; messageId: string }): Promise<{ HtmlBody?: string; TextBody?: string; from?: string; date?: string }> {
+export async function fetchEmailContent({ service, messageId }: { service: any; messageId: string }): Promise<EmailContent> {
     try {
         const response = await service.users.messages.get({
             userId: 'me',
@@ -175,58 +419,9 @@ export async function fetchEmailContent({ service, messageId }: { service: any;
             format: 'full',
         });
 
-        const payload = response.data.payload;
-        let htmlBody = '';
-        let textBody = '';
-        let from = 'unknown';
-        let date = '';
-
-        // Extract the "from" field from the headers
-        const headers = payload.headers || [];
-        const fromHeader = headers.find((header: any) => header.name.toLowerCase() === 'from');
-        if (fromHeader) {
-            const emailMatch = fromHeader.value.match(/<([^>]+)>|^[^<\s]+@[^>\s]+$/);
-            if (emailMatch) {
-                from = emailMatch[1] || emailMatch[0];
-                from = from.trim();
-            }
-        }
-
-        // Extract the "date" field from the headers
-        const dateHeader = headers.find((header: any) => header.name.toLowerCase() === 'date');
-        if (dateHeader) {
-            date = new Date(dateHeader.value).toISOString(); // Convert to ISO format
-        }
-
-        // Helper function to recursively extract body content
-        const extractBodyFromParts = (parts: any[], mimeType: string): string => {
-            for (const part of parts) {
-                if (part.mimeType === mimeType) {
-                    return Buffer.from(part.body?.data || '', 'base64').toString('utf-8');
-                }
-                if (part.parts) {
-                    const nestedBody = extractBodyFromParts(part.parts, mimeType);
-                    if (nestedBody) return nestedBody;
-                }
-            }
-            return '';
-        };
-
-        // Check if the email is multipart
-        if (payload.parts) {
-            htmlBody = extractBodyFromParts(payload.parts, 'text/html');
-            textBody = extractBodyFromParts(payload.parts, 'text/plain');
-        } else {
-            if (payload.mimeType === 'text/html') {
-                htmlBody = Buffer.from(payload.body?.data || '', 'base64').toString('utf-8');
-            } else if (payload.mimeType === 'text/plain') {
-                textBody = Buffer.from(payload.body?.data || '', 'base64').toString('utf-8');
-            }
-        }
-
-        return { HtmlBody: htmlBody, TextBody: textBody, from, date };
+        return messageToEmailContent(response.data);
     } catch (error: any) {
         console.error(`Failed to fetch email content for ID ${messageId}: ${error.message}`);
         throw error;
     }
-}
\ No newline at end of file
+}
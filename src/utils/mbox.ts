@@ -0,0 +1,70 @@
+const SEPARATOR = Buffer.from('\nFrom ', 'latin1');
+// Number of bytes read from the archive at once
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Remove the "From " separator line of an mbox message and undo the ">From " quoting of lines in its body (mboxrd)
+const finishMessage = (parts: Buffer[]): Buffer => {
+	const raw = Buffer.concat(parts).toString('latin1');
+	const body = raw.startsWith('From ') ? raw.slice(raw.indexOf('\n') + 1) : raw;
+	return Buffer.from(body.replace(/^>(>*From )/gm, '$1'), 'latin1');
+};
+
+// Find the next line at or after an offset that starts with "From ", or -1 when there is none
+const findSeparator = (lines: Buffer, from: number): number => {
+	if (from === 0 && lines.subarray(0, 5).toString('latin1') === 'From ') {
+		return 0;
+	}
+	const index = lines.indexOf(SEPARATOR, Math.max(from - 1, 0));
+	return index >= 0 ? index + 1 : -1;
+};
+
+/**
+ * Read the messages of an mbox archive, such as a Google Takeout export, one at a time.  The archive is read in
+ * chunks, so only the message being read is kept in memory.
+ * @param onRead Called with the number of bytes read so far, e.g. to show progress.
+ */
+export async function* readMboxMessages(archive: Blob, onRead?: (bytesRead: number) => void): AsyncGenerator<Buffer> {
+	let parts: Buffer[] = [];
+	// The end of the last chunk after its last line break, which is completed by the next chunk
+	let partialLine = Buffer.alloc(0);
+	let bytesRead = 0;
+
+	for (;;) {
+		const value = Buffer.from(await archive.slice(bytesRead, bytesRead + CHUNK_SIZE).arrayBuffer());
+		bytesRead += value.length;
+		onRead?.(bytesRead);
+		const done = bytesRead >= archive.size;
+
+		const data = Buffer.concat([partialLine, value]);
+		const end = done ? data.length : data.lastIndexOf('\n') + 1;
+		const lines = data.subarray(0, end);
+		partialLine = data.subarray(end);
+
+		// Every line that starts with "From " begins a new message
+		let start = 0;
+		let separator = findSeparator(lines, 0);
+		while (separator >= 0 || start < lines.length) {
+			if (separator < 0) {
+				parts.push(lines.subarray(start));
+				break;
+			}
+			if (separator > start) {
+				parts.push(lines.subarray(start, separator));
+			}
+			if (parts.length > 0) {
+				yield finishMessage(parts);
+				parts = [];
+			}
+			start = separator;
+			separator = findSeparator(lines, separator + 1);
+		}
+
+		if (done) {
+			break;
+		}
+	}
+
+	if (parts.length > 0) {
+		yield finishMessage(parts);
+	}
+}
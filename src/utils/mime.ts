@@ -0,0 +1,475 @@
+import { gmail_v1 } from '@googleapis/gmail';
+import { EmailAttachment, EmailContent } from '@/types';
+
+type MimePart = gmail_v1.Schema$MessagePart;
+type MessageBodies = { html: string; text: string; attachments: EmailAttachment[] };
+
+const ENCODED_WORD = /=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi;
+
+/**
+ * Decode base64url data (as returned by the Gmail API).  Standard base64 is accepted as well.
+ */
+export const decodeBase64Url = (data: string | null | undefined): Buffer => {
+	return Buffer.from((data || '').replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+};
+
+/**
+ * Decode quoted-printable text into the bytes it represents.
+ */
+export const decodeQuotedPrintable = (input: string): Buffer => {
+	const decoded = input
+		.replace(/[ \t]+(?=\r?\n)/g, '')
+		.replace(/=\r?\n/g, '')
+		.replace(/=([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16)));
+	return Buffer.from(decoded, 'latin1');
+};
+
+// Characters of the 0x80-0x9F range of Windows-1252, which mail clients also use for mail labelled ISO-8859-1 or ASCII
+const WINDOWS_1252_HIGH =
+	'\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+	'\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+const WINDOWS_1252_LABELS = ['windows-1252', 'cp1252', 'x-cp1252', 'iso-8859-1', 'iso8859-1', 'latin1', 'us-ascii', 'ascii'];
+
+/**
+ * Decode bytes in the given charset.  Unknown charsets fall back to UTF-8.
+ */
+export const decodeText = (bytes: Buffer, charset: string | undefined = 'utf-8'): string => {
+	const label = (charset || 'utf-8').trim().replace(/^["']|["']$/g, '').toLowerCase();
+	if (WINDOWS_1252_LABELS.includes(label)) {
+		// decoded by hand: not every TextDecoder implementation maps this range
+		return Array.from(bytes, (b) => (b >= 0x80 && b <= 0x9f ? WINDOWS_1252_HIGH[b - 0x80] : String.fromCharCode(b))).join('');
+	}
+	try {
+		return new TextDecoder(label).decode(bytes);
+	} catch (err) {
+		console.warn(`Unknown charset "${label}", decoding as UTF-8`);
+		return bytes.toString('utf-8');
+	}
+};
+
+/**
+ * Decode a header value that may contain RFC 2047 encoded-words, e.g. `=?ISO-8859-1?Q?Caf=E9?=`.
+ * Whitespace between adjacent encoded-words is dropped, and adjacent words in the same charset are decoded together
+ * so that multi-byte characters split across words come out intact.
+ */
+export const decodeHeader = (value: string | null | undefined): string => {
+	if (!value) {
+		return '';
+	}
+
+	let result = '';
+	let lastIndex = 0;
+	let pending: { charset: string; bytes: Buffer[] } | undefined;
+
+	const flush = () => {
+		if (pending) {
+			result += decodeText(Buffer.concat(pending.bytes), pending.charset);
+			pending = undefined;
+		}
+	};
+
+	const regex = new RegExp(ENCODED_WORD.source, 'gi');
+	let match;
+	while ((match = regex.exec(value)) !== null) {
+		const [word, charset, encoding, text] = match;
+		const gap = value.slice(lastIndex, match.index);
+		if (!pending || gap.trim().length > 0) {
+			flush();
+			result += gap;
+		}
+
+		const bytes =
+			encoding.toUpperCase() === 'B' ? Buffer.from(text, 'base64') : decodeQuotedPrintable(text.replace(/_/g, ' '));
+		if (pending && pending.charset.toLowerCase() !== charset.toLowerCase()) {
+			flush();
+		}
+		pending = pending ?? { charset, bytes: [] };
+		pending.bytes.push(bytes);
+		lastIndex = match.index + word.length;
+	}
+	flush();
+
+	return result + value.slice(lastIndex);
+};
+
+/**
+ * Get a header of a MIME part by name (case-insensitive).
+ */
+export const getHeader = (part: MimePart | undefined, name: string): string | undefined => {
+	return part?.headers?.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value ?? undefined;
+};
+
+/**
+ * Get a parameter of a structured header such as Content-Type or Content-Disposition, e.g. `charset` or `filename`.
+ * Supports RFC 2231 extended parameters (`filename*=UTF-8''n%C3%A4me.pdf`) and parameter continuations.
+ */
+export const getHeaderParam = (value: string | undefined, param: string): string | undefined => {
+	if (!value) {
+		return;
+	}
+
+	const name = param.toLowerCase();
+	const params = value.match(/;\s*[^=;\s]+\s*=\s*(?:"(?:[^"\\]|\\.)*"|[^;]*)/g) || [];
+	let simple: string | undefined;
+	const extended: { index: number; encoded: boolean; value: string }[] = [];
+
+	for (const p of params) {
+		const separator = p.indexOf('=');
+		const key = p.slice(1, separator).trim().toLowerCase();
+		let v = p.slice(separator + 1).trim();
+		if (v.startsWith('"') && v.endsWith('"')) {
+			v = v.slice(1, -1).replace(/\\(.)/g, '$1');
+		}
+
+		if (key === name) {
+			simple = v;
+			continue;
+		}
+		const ext = key.match(/^(.+?)\*(\d+)?(\*)?$/);
+		if (ext && ext[1] === name) {
+			extended.push({ index: Number(ext[2] ?? 0), encoded: !!ext[3] || ext[2] === undefined, value: v });
+		}
+	}
+
+	if (extended.length === 0) {
+		return simple;
+	}
+
+	extended.sort((a, b) => a.index - b.index);
+	let charset = 'utf-8';
+	const bytes = extended.map((segment, i) => {
+		let v = segment.value;
+		if (!segment.encoded) {
+			return Buffer.from(v, 'latin1');
+		}
+		if (i === 0) {
+			const [segmentCharset, , ...rest] = v.split("'");
+			charset = segmentCharset || charset;
+			v = rest.join("'");
+		}
+		return Buffer.from(
+			v.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex) => String.fromCharCode(parseInt(hex, 16))),
+			'latin1'
+		);
+	});
+
+	return decodeText(Buffer.concat(bytes), charset);
+};
+
+/**
+ * Split an address list header (To, Cc) into its decoded addresses, ignoring commas inside quoted names.
+ */
+export const parseAddressList = (value: string | undefined): string[] => {
+	if (!value) {
+		return [];
+	}
+	return (value.match(/(?:"[^"]*"|[^,])+/g) || [])
+		.map((a) => decodeHeader(a).trim())
+		.filter((a) => a.length > 0);
+};
+
+/**
+ * Parse a From header into the sender's address and name.
+ */
+export const parseSender = (value: string | undefined): { address: string; name: string } => {
+	const decoded = decodeHeader(value);
+	const match = decoded.match(/<([^>]+)>|[^<\s]+@[^>\s]+/);
+	const address = match ? (match[1] || match[0]).trim() : 'unknown';
+	const name = decoded.replace(/<[^>]*>/, '').replace(/"/g, '').trim();
+	return { address, name: name || address };
+};
+
+const normalizeContentId = (contentId: string | undefined) => (contentId || '').replace(/^<|>$/g, '').trim();
+
+// Decode the body of a text part using the charset of its Content-Type
+const decodePartText = (part: MimePart): string => {
+	const charset = getHeaderParam(getHeader(part, 'content-type'), 'charset');
+	return decodeText(decodeBase64Url(part.body?.data), charset);
+};
+
+const getPartFilename = (part: MimePart): string => {
+	return (
+		part.filename ||
+		decodeHeader(
+			getHeaderParam(getHeader(part, 'content-disposition'), 'filename') ??
+				getHeaderParam(getHeader(part, 'content-type'), 'name')
+		)
+	);
+};
+
+const isAttachmentPart = (part: MimePart): boolean => {
+	const disposition = (getHeader(part, 'content-disposition') || '').split(';')[0].trim().toLowerCase();
+	if (disposition === 'attachment') {
+		return true;
+	}
+	return !!getPartFilename(part) && !(disposition === 'inline' && part.mimeType?.toLowerCase().startsWith('text/'));
+};
+
+const toAttachment = (part: MimePart): EmailAttachment => {
+	return {
+		filename: getPartFilename(part),
+		mimeType: part.mimeType?.toLowerCase() || 'application/octet-stream',
+		size: part.body?.size || 0,
+		attachmentId: part.body?.attachmentId || undefined,
+		data: part.body?.data || undefined,
+		contentId: getHeader(part, 'content-id') || undefined
+	};
+};
+
+const collectBodies = (part: MimePart, out: MessageBodies) => {
+	const mimeType = (part.mimeType || 'text/plain').toLowerCase();
+	const children = part.parts || [];
+
+	if (mimeType === 'multipart/alternative') {
+		// alternatives are ordered from plainest to richest: keep the last HTML and the first plain text
+		let html = '';
+		for (const child of children) {
+			const alternative: MessageBodies = { html: '', text: '', attachments: [] };
+			collectBodies(child, alternative);
+			html = alternative.html || html;
+			out.text = out.text || alternative.text;
+			out.attachments.push(...alternative.attachments);
+		}
+		out.html = out.html || html;
+		return;
+	}
+
+	if (mimeType === 'multipart/related') {
+		// the root part (named by the "start" parameter, or the first part) holds the body, the rest are its resources
+		const start = normalizeContentId(getHeaderParam(getHeader(part, 'content-type'), 'start'));
+		const rootIndex = Math.max(
+			0,
+			start ? children.findIndex((c) => normalizeContentId(getHeader(c, 'content-id')) === start) : 0
+		);
+		const root = children[rootIndex];
+		if (root) {
+			collectBodies(root, out);
+		}
+		for (const child of children.filter((c, i) => i !== rootIndex)) {
+			if (child.parts?.length) {
+				collectBodies(child, out);
+			} else if (child.body?.data || child.body?.attachmentId) {
+				out.attachments.push(toAttachment(child));
+			}
+		}
+		return;
+	}
+
+	if (mimeType.startsWith('multipart/')) {
+		for (const child of children) {
+			collectBodies(child, out);
+		}
+		return;
+	}
+
+	if (!part.body?.data && !part.body?.attachmentId) {
+		// e.g. a message/rfc822 part that Gmail has expanded into its own parts
+		for (const child of children) {
+			collectBodies(child, out);
+		}
+		return;
+	}
+
+	if (isAttachmentPart(part)) {
+		out.attachments.push(toAttachment(part));
+	} else if (mimeType === 'text/html' && !out.html) {
+		out.html = decodePartText(part);
+	} else if (mimeType === 'text/plain' && !out.text) {
+		out.text = decodePartText(part);
+	} else if (getHeader(part, 'content-id') || !mimeType.startsWith('text/')) {
+		out.attachments.push(toAttachment(part));
+	}
+};
+
+/**
+ * Extract the HTML body, the plain text body and the attachments of a message.
+ * `multipart/alternative` parts prefer HTML over plain text, and the resources of `multipart/related` parts
+ * (e.g. inline images) are returned as attachments with their Content-ID.
+ */
+export const extractMessageBodies = (payload: MimePart | undefined): MessageBodies => {
+	const bodies: MessageBodies = { html: '', text: '', attachments: [] };
+	if (payload) {
+		collectBodies(payload, bodies);
+	}
+	return bodies;
+};
+
+/**
+ * Count the attachments of a message from the file names of its parts, which also works when the part bodies were
+ * left out of the response.
+ */
+export const countAttachmentParts = (part: MimePart | undefined): number => {
+	if (!part) {
+		return 0;
+	}
+	const childCount = (part.parts || []).reduce((count, child) => count + countAttachmentParts(child), 0);
+	return (getPartFilename(part) ? 1 : 0) + childCount;
+};
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Decode the HTML entities that Gmail uses in message snippets, e.g. "&#39;" and "&amp;"
+export const decodeHtmlEntities = (text: string): string => {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+			return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+		}
+		return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+	});
+};
+
+/**
+ * Convert a message in the Gmail API `full` format into the email content used by the importer.
+ * Messages in the `metadata` format, or without part bodies, work as well, and have no bodies or attachments.
+ */
+export const messageToEmailContent = (message: gmail_v1.Schema$Message): EmailContent => {
+	const payload = message.payload || undefined;
+	const { address, name } = parseSender(getHeader(payload, 'from'));
+	const dateHeader = getHeader(payload, 'date');
+	const date = dateHeader ? new Date(dateHeader) : message.internalDate ? new Date(Number(message.internalDate)) : undefined;
+	const { html, text, attachments } = extractMessageBodies(payload);
+
+	return {
+		messageId: message.id || '',
+		threadId: message.threadId || '',
+		rfcMessageId: getHeader(payload, 'message-id')?.trim().replace(/^<|>$/g, '') || undefined,
+		subject: decodeHeader(getHeader(payload, 'subject')),
+		from: address,
+		fromName: name,
+		to: parseAddressList(getHeader(payload, 'to')),
+		cc: parseAddressList(getHeader(payload, 'cc')),
+		date: date && !isNaN(date.getTime()) ? date.toISOString() : '',
+		labelIds: message.labelIds || [],
+		snippet: decodeHtmlEntities(message.snippet || ''),
+		HtmlBody: html,
+		TextBody: text,
+		attachments
+	};
+};
+
+// Split a raw message or part into its header block and its body
+const splitHeaderAndBody = (raw: string): { headers: gmail_v1.Schema$MessagePartHeader[]; body: string } => {
+	const match = raw.match(/\r?\n\r?\n/);
+	const headerText = match?.index !== undefined ? raw.slice(0, match.index) : raw;
+	const body = match?.index !== undefined ? raw.slice(match.index + match[0].length) : '';
+
+	const headers = headerText
+		.replace(/\r?\n[ \t]+/g, ' ')
+		.split(/\r?\n/)
+		.map((line): gmail_v1.Schema$MessagePartHeader | undefined => {
+			const separator = line.indexOf(':');
+			return separator > 0
+				? {
+						name: line.slice(0, separator).trim(),
+						// header bytes outside of encoded-words are UTF-8 (RFC 6532)
+						value: Buffer.from(line.slice(separator + 1).trim(), 'latin1').toString('utf-8')
+				  }
+				: undefined;
+		})
+		.filter((h): h is gmail_v1.Schema$MessagePartHeader => !!h);
+
+	return { headers, body };
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Parse a raw MIME entity (kept as a latin1 string so that every byte maps to one character)
+const parseEntity = (raw: string, partId: string, defaultType = 'text/plain'): MimePart => {
+	const { headers, body } = splitHeaderAndBody(raw);
+	const part: MimePart = { partId, headers };
+	const contentType = headers.find((h) => h.name?.toLowerCase() === 'content-type')?.value ?? undefined;
+	part.mimeType = (contentType?.split(';')[0].trim() || defaultType).toLowerCase();
+
+	const boundary = getHeaderParam(contentType, 'boundary');
+	if (part.mimeType.startsWith('multipart/') && boundary) {
+		const delimiter = new RegExp(`(?:^|\\r?\\n)--${escapeRegExp(boundary)}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+		const sections: string[] = [];
+		let lastIndex = -1;
+		let match;
+		while ((match = delimiter.exec(body)) !== null) {
+			if (lastIndex >= 0) {
+				sections.push(body.slice(lastIndex, match.index).replace(/^\r?\n/, ''));
+			}
+			lastIndex = match.index + match[0].length;
+			if (match[1]) {
+				break;
+			}
+		}
+		const childType = part.mimeType === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+		part.parts = sections.map((s, i) => parseEntity(s, partId ? `${partId}.${i}` : `${i}`, childType));
+		part.body = { size: 0 };
+		part.filename = '';
+		return part;
+	}
+
+	const encoding = (headers.find((h) => h.name?.toLowerCase() === 'content-transfer-encoding')?.value || '')
+		.trim()
+		.toLowerCase();
+	const bytes =
+		encoding === 'base64'
+			? Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64')
+			: encoding === 'quoted-printable'
+			? decodeQuotedPrintable(body)
+			: Buffer.from(body, 'latin1');
+
+	part.body = { data: bytes.toString('base64'), size: bytes.length };
+	part.filename = getPartFilename(part);
+	return part;
+};
+
+/**
+ * Parse a raw RFC 822 message (e.g. an .eml file) into the same part structure that the Gmail API returns,
+ * with transfer encodings already removed.
+ */
+export const parseRawMessage = (raw: Buffer | string): MimePart => {
+	return parseEntity(typeof raw === 'string' ? Buffer.from(raw, 'utf-8').toString('latin1') : raw.toString('latin1'), '');
+};
+
+// Convert a decimal number of any size to hexadecimal, e.g. a Gmail thread ID from X-GM-THRID into the form the API uses
+const decimalToHex = (decimal: string): string => {
+	let digits = decimal.split('').map(Number);
+	let hex = '';
+	while (digits.length > 0) {
+		const quotient: number[] = [];
+		let remainder = 0;
+		for (const digit of digits) {
+			const value = remainder * 10 + digit;
+			remainder = value % 16;
+			if (quotient.length > 0 || value >= 16) {
+				quotient.push(Math.floor(value / 16));
+			}
+		}
+		hex = remainder.toString(16) + hex;
+		digits = quotient;
+	}
+	return hex;
+};
+
+// Get the first words of an email as plain text, for emails that do not come with a snippet from Gmail
+const createSnippet = (text: string | undefined, html: string | undefined, maxLength = 200): string => {
+	const plain = text || (html ?? '').replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ');
+	return decodeHtmlEntities(plain).replace(/\s+/g, ' ').trim().slice(0, maxLength);
+};
+
+/**
+ * Convert a raw RFC 822 message, e.g. an .eml file or a message from a Google Takeout .mbox archive, into the email
+ * content used by the importer.  The Message-ID header takes the place of the Gmail message ID, the thread ID comes
+ * from the X-GM-THRID header and the labels from the X-Gmail-Labels header that Takeout adds.
+ * Messages without a Message-ID header get an ID made from their thread, date and sender.
+ */
+export const rawMessageToEmailContent = (raw: Buffer | string): EmailContent => {
+	const payload = parseRawMessage(raw);
+	const threadHeader = getHeader(payload, 'x-gm-thrid')?.trim() ?? '';
+	const threadId = /^\d+$/.test(threadHeader) ? decimalToHex(threadHeader) : '';
+	// labels with a comma in their name are quoted, e.g. "Clients, 2023"
+	const labelIds = (decodeHeader(getHeader(payload, 'x-gmail-labels')).match(/(?:"(?:[^"\\]|\\.)*"|[^,])+/g) || [])
+		.map((label) => label.trim().replace(/^"([\s\S]*)"$/, (_m, quoted: string) => quoted.replace(/\\(.)/g, '$1')))
+		.filter((label) => label.length > 0);
+
+	const email = messageToEmailContent({ payload, threadId, labelIds });
+	email.messageId =
+		email.rfcMessageId || [threadId, email.date, email.from, email.subject].filter((part) => part.length > 0).join('/');
+	email.snippet = createSnippet(email.TextBody, email.HtmlBody);
+	return email;
+};
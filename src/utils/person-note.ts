@@ -0,0 +1,118 @@
+import { Person } from '@/models/Person';
+import { ContactGroupFolder, PersonResult } from '@/types';
+import { App, getFrontMatterInfo, parseYaml, stringifyYaml } from 'obsidian';
+import { removeInvalidFileNameChars } from './files';
+
+export const GENERATED_BLOCK_START = '%% google-lookup:start %%';
+export const GENERATED_BLOCK_END = '%% google-lookup:end %%';
+
+const isEmpty = (value: unknown) => value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Find the generated block of a note, including its start and end markers
+const findGeneratedBlock = (content: string): { start: number; end: number } | undefined => {
+	const start = content.indexOf(GENERATED_BLOCK_START);
+	const end = content.indexOf(GENERATED_BLOCK_END, start);
+	return start >= 0 && end >= 0 ? { start, end: end + GENERATED_BLOCK_END.length } : undefined;
+};
+
+// Find the lines of a top-level frontmatter key: the key itself and the indented or listed values below it
+const findKeyLines = (lines: string[], key: string): { start: number; end: number } | undefined => {
+	const start = lines.findIndex((line) => line.match(/^(["']?)([^\s#"'][^:]*?)\1\s*:(\s|$)/)?.[2] === key);
+	if (start < 0) {
+		return;
+	}
+	let end = start + 1;
+	while (end < lines.length && /^(\s+\S|-(\s|$))/.test(lines[end])) {
+		end++;
+	}
+	return { start, end };
+};
+
+/**
+ * Set the frontmatter keys kept by the plugin, removing the keys without a value.  Only the lines of keys whose value
+ * changed are rewritten, so the other keys keep their order, quoting and comments.
+ */
+const updateFrontmatterText = (content: string, values: Record<string, unknown>): string => {
+	const info = getFrontMatterInfo(content);
+	const frontmatter: Record<string, unknown> = (info.exists && parseYaml(info.frontmatter)) || {};
+	const isChanged = (key: string, value: unknown) =>
+		isEmpty(value) ? key in frontmatter : JSON.stringify(frontmatter[key]) !== JSON.stringify(value);
+	const changes = Object.entries(values).filter(([key, value]) => isChanged(key, value));
+	if (changes.length === 0) {
+		return content;
+	}
+	if (!info.exists) {
+		const added = Object.fromEntries(changes.filter(([, value]) => !isEmpty(value)));
+		return `---\n${stringifyYaml(added)}---\n${content}`;
+	}
+
+	const text = content.slice(info.from, info.to);
+	const lines = text.replace(/\n$/, '').split('\n').filter((line, i, all) => all.length > 1 || line.length > 0);
+	for (const [key, value] of changes) {
+		const replacement = isEmpty(value) ? [] : stringifyYaml({ [key]: value }).trimEnd().split('\n');
+		const current = findKeyLines(lines, key);
+		if (current) {
+			lines.splice(current.start, current.end - current.start, ...replacement);
+		} else {
+			lines.push(...replacement);
+		}
+	}
+	const updated = lines.join('\n') + (lines.length > 0 && (text.endsWith('\n') || text.length === 0) ? '\n' : '');
+	return content.slice(0, info.from) + updated + content.slice(info.to);
+};
+
+// Get the name of the note for a contact, from the person filename format, or its email when the contact has no name
+export const getNoteName = (person: PersonResult, note: Person): string => {
+	const title = removeInvalidFileNameChars(note.getTitle())
+		.replace(/^[\s,.-]+|[\s,.-]+$/g, '')
+		.trim();
+	return title || removeInvalidFileNameChars(person.emails?.find((e) => !!e) || person.resourceName || 'Unnamed contact');
+};
+
+/**
+ * Get the folder for the note of a contact from the first mapping of a contact group that the contact belongs to.
+ * Groups are matched by name, ignoring case, or by ID.
+ */
+export const getContactGroupFolder = (person: PersonResult, mappings: ContactGroupFolder[] = []): string | undefined => {
+	const mapping = mappings.find(({ group, folder }) => {
+		const name = group.trim().toLowerCase();
+		return (
+			name &&
+			folder.trim() &&
+			person.contactGroups?.some(
+				(g) =>
+					g.name.toLowerCase() === name ||
+					g.resourceName.toLowerCase() === name ||
+					g.resourceName.toLowerCase() === `contactgroups/${name}`
+			)
+		);
+	});
+	return mapping?.folder.trim();
+};
+
+/**
+ * Get the content of a person note updated with the current details of the contact.  Only the frontmatter keys kept
+ * by the plugin and the generated block between the `%% google-lookup:start %%` and `%% google-lookup:end %%` markers
+ * are changed; everything else, such as a log written by hand, stays as it is.
+ * The generated block is taken from the person template, so nothing but the frontmatter changes when either the note
+ * or the template has no markers.
+ */
+export const getRefreshedPersonNote = async (app: App, content: string, note: Person): Promise<string> => {
+	let updated = updateFrontmatterText(content, note.getFrontmatter());
+
+	const generated = await note.generateFromTemplate(app);
+	const generatedBlock = findGeneratedBlock(generated);
+	const block = findGeneratedBlock(updated);
+	if (generatedBlock && block) {
+		updated =
+			updated.slice(0, block.start) + generated.slice(generatedBlock.start, generatedBlock.end) + updated.slice(block.end);
+	}
+	return updated;
+};
+
+/**
+ * Create the content of a new person note from the person template, with the frontmatter keys kept by the plugin.
+ */
+export const createPersonNote = async (app: App, note: Person): Promise<string> => {
+	return updateFrontmatterText((await note.generateFromTemplate(app)).trimStart(), note.getFrontmatter());
+};
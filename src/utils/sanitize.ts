@@ -0,0 +1,214 @@
+// Elements that are removed together with everything inside them
+const DROPPED_TAGS = new Set([
+	'applet',
+	'base',
+	'button',
+	'embed',
+	'form',
+	'frame',
+	'frameset',
+	'head',
+	'iframe',
+	'input',
+	'link',
+	'math',
+	'meta',
+	'noscript',
+	'object',
+	'script',
+	'select',
+	'style',
+	'svg',
+	'template',
+	'textarea',
+	'title'
+]);
+
+// Elements that are kept; any other element is replaced by its contents
+const ALLOWED_TAGS = new Set([
+	'a',
+	'abbr',
+	'b',
+	'blockquote',
+	'br',
+	'caption',
+	'cite',
+	'code',
+	'col',
+	'colgroup',
+	'dd',
+	'del',
+	'details',
+	'div',
+	'dl',
+	'dt',
+	'em',
+	'figcaption',
+	'figure',
+	'h1',
+	'h2',
+	'h3',
+	'h4',
+	'h5',
+	'h6',
+	'hr',
+	'i',
+	'img',
+	'ins',
+	'kbd',
+	'li',
+	'mark',
+	'ol',
+	'p',
+	'pre',
+	'q',
+	's',
+	'small',
+	'span',
+	'strong',
+	'sub',
+	'summary',
+	'sup',
+	'table',
+	'tbody',
+	'td',
+	'tfoot',
+	'th',
+	'thead',
+	'tr',
+	'u',
+	'ul'
+]);
+
+// Attributes that are kept in both modes
+const ALLOWED_ATTRIBUTES = new Set(['alt', 'cite', 'colspan', 'dir', 'href', 'lang', 'open', 'rowspan', 'src', 'start', 'title']);
+// Attributes for the layout of the email, which are dropped in plain reading mode
+const LAYOUT_ATTRIBUTES = new Set([
+	'align',
+	'bgcolor',
+	'border',
+	'cellpadding',
+	'cellspacing',
+	'height',
+	'style',
+	'valign',
+	'width'
+]);
+
+// Inline styles that load something from the web or run code
+const UNSAFE_STYLE = /url\s*\(|expression\s*\(|javascript:|@import|behavior\s*:|-moz-binding/i;
+
+export const escapeHtml = (text: string) =>
+	text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Check whether a link or image address is safe to keep: web, mail and phone links, links within the email, and
+ * relative paths such as saved images.  Inline images may also use `cid:` and `data:image/` addresses.
+ */
+const isSafeUrl = (url: string, isImage: boolean): boolean => {
+	// Browsers ignore control characters and whitespace inside the scheme, e.g. "java\tscript:"
+	const normalized = Array.from(url)
+		.filter((c) => c.charCodeAt(0) > 32)
+		.join('')
+		.toLowerCase();
+	if (!/^[a-z][a-z0-9+.-]*:/.test(normalized)) {
+		return true;
+	}
+	return isImage
+		? /^(https?:|cid:|data:image\/(png|gif|jpe?g|webp);)/.test(normalized)
+		: /^(https?:|mailto:|tel:)/.test(normalized);
+};
+
+// Get a size in pixels from an attribute or an inline style, e.g. "1", "1px" or "0"
+const getPixelSize = (element: HTMLElement, name: 'width' | 'height'): number | undefined => {
+	const value = element.getAttribute(name) ?? element.style.getPropertyValue(name);
+	const size = parseFloat(value);
+	return value && /^\s*[\d.]+\s*(px)?\s*$/i.test(value) && !isNaN(size) ? size : undefined;
+};
+
+// Tracking images are tiny or hidden images that tell the sender when the email is opened
+const isTrackingImage = (img: HTMLElement): boolean => {
+	const width = getPixelSize(img, 'width');
+	const height = getPixelSize(img, 'height');
+	const hidden = img.style.display === 'none' || img.style.visibility === 'hidden';
+	return hidden || (width !== undefined && width <= 1) || (height !== undefined && height <= 1);
+};
+
+// Tables with header cells or a caption hold data; other tables only arrange the email on the page
+const isLayoutTable = (table: HTMLTableElement): boolean => {
+	if (table.getAttribute('role') === 'presentation') {
+		return true;
+	}
+	const hasHeaderCells = Array.from(table.rows).some((row) => Array.from(row.cells).some((cell) => cell.tagName === 'TH'));
+	return !table.caption && !table.tHead && !hasHeaderCells;
+};
+
+// Replace a layout table with one block per cell, leaving out empty cells that only add space
+const unwrapLayoutTable = (table: HTMLTableElement) => {
+	const blocks = Array.from(table.rows)
+		.flatMap((row) => Array.from(row.cells))
+		.filter((cell) => cell.textContent?.trim() || cell.querySelector('img, hr, table'))
+		.map((cell) => {
+			const block = table.ownerDocument.createElement('div');
+			block.append(...Array.from(cell.childNodes));
+			return block;
+		});
+	table.replaceWith(...blocks);
+};
+
+const sanitizeAttributes = (element: HTMLElement, plain: boolean) => {
+	const tag = element.tagName.toLowerCase();
+	for (const { name, value } of Array.from(element.attributes)) {
+		const allowed = ALLOWED_ATTRIBUTES.has(name) || (!plain && LAYOUT_ATTRIBUTES.has(name));
+		const unsafe =
+			(name === 'href' && (tag !== 'a' || !isSafeUrl(value, false))) ||
+			(name === 'src' && (tag !== 'img' || !isSafeUrl(value, true))) ||
+			(name === 'style' && UNSAFE_STYLE.test(value));
+		if (!allowed || unsafe) {
+			element.removeAttribute(name);
+		}
+	}
+};
+
+// Sanitize the children of an element, innermost elements first so that nested layout tables are unwrapped in order
+const sanitizeChildren = (parent: Node, plain: boolean) => {
+	for (const node of Array.from(parent.childNodes)) {
+		if (node.nodeType === Node.COMMENT_NODE) {
+			node.remove();
+			continue;
+		}
+		if (node.nodeType !== Node.ELEMENT_NODE) {
+			continue;
+		}
+
+		const element = node as HTMLElement;
+		const tag = element.tagName.toLowerCase();
+		if (DROPPED_TAGS.has(tag) || (tag === 'img' && isTrackingImage(element))) {
+			element.remove();
+			continue;
+		}
+
+		sanitizeChildren(element, plain);
+		if (plain && tag === 'table' && isLayoutTable(element as HTMLTableElement)) {
+			unwrapLayoutTable(element as HTMLTableElement);
+		} else if (!ALLOWED_TAGS.has(tag)) {
+			element.replaceWith(...Array.from(element.childNodes));
+		} else {
+			sanitizeAttributes(element, plain);
+		}
+	}
+};
+
+/**
+ * Clean up the HTML of an email before it is saved to the vault.  Only an allowlist of tags and attributes is kept:
+ * scripts, `<style>` blocks, forms, frames, comments and event-handler attributes are removed, as are `javascript:`
+ * links and tracking images.
+ * In plain reading mode the structure of the email is kept, but tables that only lay out the email are replaced by
+ * their contents and inline styles and other layout attributes are dropped.
+ * @returns A complete HTML document with the sanitized body.
+ */
+export const sanitizeEmailHtml = (html: string, { plain = false }: { plain?: boolean } = {}): string => {
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	sanitizeChildren(doc.body, plain);
+	return `<html><head><meta charset="utf-8"></head><body>${doc.body.innerHTML}</body></html>`;
+};
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { EmailRoutingRule } from '@/types';
+import { createEmptyRule, EmailRuleSample, findMatchingRule, getRuleTags, ruleMatches } from '@/utils/email-rules';
+
+const sample: EmailRuleSample = {
+	from: 'Billing@Mail.Example.com',
+	subject: 'Invoice 2024-05 for your order',
+	labelNames: ['INBOX', 'Receipts'],
+	accountName: 'Work'
+};
+
+const rule = (conditions: Partial<EmailRoutingRule>): EmailRoutingRule => ({ ...createEmptyRule(), ...conditions });
+
+describe('ruleMatches', () => {
+	it('matches every email when the rule has no conditions, unless it is disabled', () => {
+		assert.equal(ruleMatches(rule({}), sample), true);
+		assert.equal(ruleMatches(rule({ enabled: false }), sample), false);
+	});
+
+	it('matches senders by address, or by domain including subdomains', () => {
+		assert.equal(ruleMatches(rule({ from: 'billing@mail.example.com' }), sample), true);
+		assert.equal(ruleMatches(rule({ from: 'other@example.com, example.com' }), sample), true);
+		assert.equal(ruleMatches(rule({ from: '@example.com' }), sample), true);
+		assert.equal(ruleMatches(rule({ from: 'billing@example.com' }), sample), false);
+		assert.equal(ruleMatches(rule({ from: 'ample.com' }), sample), false);
+	});
+
+	it('tests the subject as a regular expression, ignoring case', () => {
+		assert.equal(ruleMatches(rule({ subject: '^(invoice|receipt)' }), sample), true);
+		assert.equal(ruleMatches(rule({ subject: '^receipt' }), sample), false);
+	});
+
+	it('does not match when the subject pattern is not a valid regular expression', () => {
+		const warn = console.warn;
+		console.warn = () => undefined;
+		try {
+			assert.equal(ruleMatches(rule({ subject: '(invoice' }), sample), false);
+		} finally {
+			console.warn = warn;
+		}
+	});
+
+	it('matches labels and accounts ignoring case', () => {
+		assert.equal(ruleMatches(rule({ label: 'receipts', account: 'work' }), sample), true);
+		assert.equal(ruleMatches(rule({ label: 'Travel' }), sample), false);
+		assert.equal(ruleMatches(rule({ account: 'Personal' }), sample), false);
+	});
+
+	it('requires every condition to match', () => {
+		assert.equal(ruleMatches(rule({ from: 'example.com', subject: 'invoice', label: 'Receipts' }), sample), true);
+		assert.equal(ruleMatches(rule({ from: 'example.com', subject: 'invoice', label: 'Travel' }), sample), false);
+	});
+});
+
+describe('findMatchingRule', () => {
+	it('returns the first enabled rule that matches', () => {
+		const rules = [
+			rule({ name: 'Disabled', enabled: false }),
+			rule({ name: 'Travel', label: 'Travel' }),
+			rule({ name: 'Receipts', label: 'Receipts' }),
+			rule({ name: 'Everything else' })
+		];
+
+		assert.deepEqual(findMatchingRule(rules, sample), { rule: rules[2], index: 2 });
+		assert.equal(findMatchingRule([], sample), undefined);
+		assert.equal(findMatchingRule(undefined, sample), undefined);
+	});
+});
+
+describe('getRuleTags', () => {
+	it('splits the tags and removes their leading "#"', () => {
+		assert.deepEqual(getRuleTags(rule({ tags: '#finance, receipts ,, ' })), ['finance', 'receipts']);
+		assert.deepEqual(getRuleTags(undefined), []);
+	});
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isInQuietHours } from '@/models/EmailScheduler';
+
+const at = (hours: number, minutes: number) => new Date(2024, 4, 3, hours, minutes);
+
+describe('isInQuietHours', () => {
+	it('checks times between a start and end on the same day', () => {
+		assert.equal(isInQuietHours(at(12, 0), '12:00', '13:30'), true);
+		assert.equal(isInQuietHours(at(13, 29), '12:00', '13:30'), true);
+		assert.equal(isInQuietHours(at(13, 30), '12:00', '13:30'), false);
+		assert.equal(isInQuietHours(at(11, 59), '12:00', '13:30'), false);
+	});
+
+	it('checks quiet hours that run past midnight', () => {
+		assert.equal(isInQuietHours(at(22, 0), '22:00', '07:00'), true);
+		assert.equal(isInQuietHours(at(23, 59), '22:00', '07:00'), true);
+		assert.equal(isInQuietHours(at(0, 0), '22:00', '07:00'), true);
+		assert.equal(isInQuietHours(at(6, 59), '22:00', '07:00'), true);
+		assert.equal(isInQuietHours(at(7, 0), '22:00', '07:00'), false);
+		assert.equal(isInQuietHours(at(21, 59), '22:00', '07:00'), false);
+	});
+
+	it('accepts single-digit hours and surrounding spaces', () => {
+		assert.equal(isInQuietHours(at(8, 15), ' 8:00 ', '9:00'), true);
+	});
+
+	it('has no quiet hours when a time is missing, invalid or the same as the other', () => {
+		assert.equal(isInQuietHours(at(23, 0), undefined, '07:00'), false);
+		assert.equal(isInQuietHours(at(23, 0), '22:00', ''), false);
+		assert.equal(isInQuietHours(at(23, 0), '10pm', '07:00'), false);
+		assert.equal(isInQuietHours(at(23, 0), '22:00', '22:00'), false);
+	});
+});
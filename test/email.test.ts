@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { App } from 'obsidian';
+import { Email } from '@/models/Email';
+import { EmailContent } from '@/types';
+
+const createEmail = (fields: Partial<EmailContent> = {}): EmailContent => ({
+	messageId: '18af67a1b0c3d2b1',
+	threadId: '18af67a1b0c3d2b1',
+	subject: 'Lunch on Friday?',
+	from: 'jane@example.com',
+	fromName: 'Jane Doe',
+	to: ['john@example.com'],
+	cc: [],
+	date: '2024-05-03T12:30:00.000Z',
+	labelIds: [],
+	snippet: 'Shall we meet at noon?',
+	attachments: [],
+	...fields
+});
+
+// An app whose vault holds only the given template
+const createApp = (template: string) =>
+	({
+		metadataCache: { getFirstLinkpathDest: () => ({ path: 'Template.md' }) },
+		vault: { cachedRead: async () => template }
+	} as unknown as App);
+
+// Leave out the frontmatter of a generated note
+const getNoteBody = (note: string) => note.slice(note.indexOf('\n---\n') + 5);
+
+describe('Email.generateFromTemplate', () => {
+	it('does not expand template fields inside the email', async () => {
+		const email = new Email(
+			createEmail({ subject: 'About {{body}} and {{link}}', snippet: '{{sent:YYYY}} {{date}}' }),
+			'Work',
+			[],
+			'Template.md'
+		);
+		const note = await email.generateFromTemplate(createApp('# {{subject}}\n{{snippet}}\n{{body}}'), {
+			body: 'Text with {{subject}} in it',
+			attachments: []
+		});
+
+		assert.equal(
+			getNoteBody(note),
+			'# About {{body}} and {{link}}\n{{sent:YYYY}} {{date}}\nText with {{subject}} in it'
+		);
+	});
+
+	it('keeps $ patterns and unknown fields as they are', async () => {
+		const email = new Email(createEmail({ subject: 'Costs $& and $1' }), 'Work', [], 'Template.md');
+		const note = await email.generateFromTemplate(createApp('{{ Subject }} {{unknown}} {{body}}'), {
+			body: '$$',
+			attachments: []
+		});
+
+		assert.equal(getNoteBody(note), 'Costs $& and $1 {{unknown}} $$');
+	});
+});
+
+describe('Email.getFilename', () => {
+	const getFilename = (subject: string, maxLength: number, filenameTemplate = '{{from}} -- {{subject}}') =>
+		new Email(createEmail({ subject }), 'Work', [], undefined, filenameTemplate).getFilename(maxLength);
+
+	it('fills in the filename template and replaces characters that are not allowed', () => {
+		assert.equal(getFilename('Lunch on Friday?', 0), 'jane@example.com -- Lunch on Friday_');
+		assert.equal(getFilename('Re: the {{from}} field', 0), 'jane@example.com -- Re_ the from field');
+	});
+
+	it('cuts the subject first so that the rest of the name stays intact', () => {
+		const filename = getFilename('Quarterly report for the whole team', 40);
+
+		assert.equal(filename, 'jane@example.com -- Quarterly report fo…');
+		assert.equal(filename.length, 40);
+	});
+
+	it('cuts the end of the name when cutting the subject is not enough', () => {
+		assert.equal(getFilename('Quarterly report for the whole team', 15), 'jane@example.c…');
+	});
+
+	it('leaves names within the limit as they are', () => {
+		assert.equal(getFilename('Lunch', 25), 'jane@example.com -- Lunch');
+	});
+
+	it('removes trailing dots and falls back to "Untitled"', () => {
+		assert.equal(getFilename('Wait...', 0, '{{subject}}'), 'Wait');
+		assert.equal(getFilename('...', 0, '{{subject}}'), 'Untitled');
+		assert.equal(getFilename('', 0, '{{subject}}'), 'Untitled');
+	});
+});
@@ -0,0 +1,127 @@
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { App, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { formatPathPattern, getStackFolder, saveFileToStack } from '@/utils/files';
+
+// A vault that keeps its files in memory, with the methods used to save emails
+const createVault = () => {
+	const files = new Map<string, TAbstractFile>();
+	const contents = new Map<string, string>();
+	const addFile = <T extends TAbstractFile>(file: T, filePath: string): T => {
+		file.path = filePath;
+		file.name = path.posix.basename(filePath);
+		files.set(filePath, file);
+		return file;
+	};
+
+	const vault = {
+		getAbstractFileByPath: (filePath: string) => files.get(filePath) ?? null,
+		createFolder: async (folderPath: string) => addFile(new TFolder(), folderPath),
+		create: async (filePath: string, data: string) => {
+			contents.set(filePath, data);
+			return addFile(new TFile(), filePath);
+		},
+		modify: async (file: TFile, data: string) => {
+			contents.set(file.path, data);
+		},
+		append: async (file: TFile, data: string) => {
+			contents.set(file.path, (contents.get(file.path) ?? '') + data);
+		},
+		process: async (file: TFile, fn: (data: string) => string) => {
+			const data = fn(contents.get(file.path) ?? '');
+			contents.set(file.path, data);
+			return data;
+		}
+	};
+
+	return { app: { vault } as unknown as App, contents };
+};
+
+describe('saveFileToStack', () => {
+	it('adds a numeric suffix when a file with the same name exists', async () => {
+		const { app, contents } = createVault();
+		await saveFileToStack(app, 'Emails', 'Invoice.md', 'first');
+		const file = await saveFileToStack(app, 'Emails', 'Invoice.md', 'second');
+
+		assert.equal(file.path, 'Emails/Invoice (2).md');
+		assert.equal(contents.get('Emails/Invoice.md'), 'first');
+		assert.equal(contents.get('Emails/Invoice (2).md'), 'second');
+	});
+
+	it('appends Markdown emails without their frontmatter', async () => {
+		const { app, contents } = createVault();
+		await saveFileToStack(app, 'Emails', 'Invoice.md', '---\nsubject: A\n---\nEmail A', { collision: 'append' });
+		await saveFileToStack(app, 'Emails', 'Invoice.md', '---\nsubject: B\n---\nEmail B', { collision: 'append' });
+
+		assert.equal(contents.get('Emails/Invoice.md'), '---\nsubject: A\n---\nEmail A\n\n---\n\nEmail B\n');
+	});
+
+	it('appends the body of HTML emails to the body of the existing file', async () => {
+		const { app, contents } = createVault();
+		await saveFileToStack(app, 'Emails', 'Invoice.htm', '<html><body><p>A</p></body></html>', { collision: 'append' });
+		await saveFileToStack(app, 'Emails', 'Invoice.htm', '<html><body><p>B</p></body></html>', { collision: 'append' });
+
+		assert.equal(contents.get('Emails/Invoice.htm'), '<html><body><p>A</p>\n<hr>\n<p>B</p>\n</body></html>');
+	});
+
+	it('replaces the earlier import of an email', async () => {
+		const { app, contents } = createVault();
+		await saveFileToStack(app, 'Emails', 'Invoice.md', 'first');
+		const file = await saveFileToStack(app, 'Emails', 'Invoice.md', 'updated', {
+			collision: 'append',
+			replacePath: 'Emails/Invoice.md'
+		});
+
+		assert.equal(file.path, 'Emails/Invoice.md');
+		assert.equal(contents.get('Emails/Invoice.md'), 'updated');
+	});
+
+	it('keeps the file an email was appended to when the email is imported again', async () => {
+		const { app, contents } = createVault();
+		await saveFileToStack(app, 'Emails', 'Invoice.md', 'Email A', { collision: 'append' });
+		await saveFileToStack(app, 'Emails', 'Invoice.md', 'Email B', { collision: 'append' });
+		const file = await saveFileToStack(app, 'Emails', 'Invoice.md', 'Email B again', {
+			collision: 'append',
+			keepPath: 'Emails/Invoice.md'
+		});
+
+		assert.equal(file.path, 'Emails/Invoice (2).md');
+		assert.equal(contents.get('Emails/Invoice.md'), 'Email A\n\n---\n\nEmail B\n');
+		assert.equal(contents.get('Emails/Invoice (2).md'), 'Email B again');
+	});
+});
+
+describe('formatPathPattern', () => {
+	const date = new Date(2024, 4, 3, 12, 30);
+
+	it('formats the pattern as a moment.js date', () => {
+		assert.equal(formatPathPattern('YYYY/YYYY-MM', date, {}), '2024/2024-05');
+		assert.equal(formatPathPattern('YYYY/MM - MMMM/[Week] ww', date, {}), '2024/05 - May/Week 18');
+	});
+
+	it('inserts the fields without formatting them as dates', () => {
+		assert.equal(
+			formatPathPattern('YYYY/{{account}}/{{label}}', date, { account: 'Work', label: 'Receipts' }),
+			'2024/Work/Receipts'
+		);
+		assert.equal(formatPathPattern('{{from}}', date, { from: 'dd@example.com' }), 'dd@example.com');
+	});
+
+	it('drops the folders of empty and unknown fields', () => {
+		assert.equal(formatPathPattern('YYYY/{{label}}/MM', date, { label: '' }), '2024/05');
+		assert.equal(formatPathPattern('YYYY/{{missing}}', date, {}), '2024');
+	});
+
+	it('keeps field values inside their folder and the path inside the base folder', () => {
+		assert.equal(formatPathPattern('{{label}}/YYYY', date, { label: 'Work/Receipts' }), 'Work_Receipts/2024');
+		assert.equal(formatPathPattern('[..]/[.]/ YYYY /', date, {}), '2024');
+		assert.equal(formatPathPattern('{{label}}', date, { label: '..' }), '');
+	});
+
+	it('builds the email folder inside the base folder', () => {
+		assert.equal(getStackFolder('_Inbox', 'YYYY/YYYY-MM', date, {}), '_Inbox/2024/2024-05');
+		assert.equal(getStackFolder(' ', 'YYYY', date, {}), '2024');
+		assert.equal(getStackFolder('_Inbox/', '', date, {}), '_Inbox');
+	});
+});
@@ -0,0 +1,58 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { readMboxMessages } from '@/utils/mbox';
+
+declare const FIXTURES_DIR: string;
+
+const archive = new Blob([readFileSync(path.join(FIXTURES_DIR, 'takeout.mbox'))]);
+
+// An archive that hands out at most `chunkSize` bytes at a time, so that lines and separators are split between chunks
+const withChunkSize = (blob: Blob, chunkSize: number) =>
+	({
+		size: blob.size,
+		slice: (start: number, end: number) => blob.slice(start, Math.min(end, start + chunkSize))
+	} as unknown as Blob);
+
+const readAll = async (blob: Blob) => {
+	const messages: string[] = [];
+	for await (const message of readMboxMessages(blob)) {
+		messages.push(message.toString('utf-8'));
+	}
+	return messages;
+};
+
+describe('readMboxMessages', () => {
+	it('splits the archive at the "From " separator lines and removes them', async () => {
+		const messages = await readAll(archive);
+
+		assert.equal(messages.length, 3);
+		assert.match(messages[0], /^X-GM-THRID: 1781234567890123456\n/);
+		assert.match(messages[1], /^From: Bob <bob@example.com>\nSubject: Second\n\nFromage is not a separator\.\n\n$/);
+		assert.equal(messages[2], 'From: Renée <renee@example.fr>\nSubject: Third\n\nLast message.\n');
+	});
+
+	it('undoes the ">From " quoting of body lines', async () => {
+		const [first] = await readAll(archive);
+
+		assert.match(first, /\n\nFrom the start of a line, quoted\.\n>From quoted twice\.\nNot From here\.\n\n$/);
+	});
+
+	it('reads the same messages whatever the chunk boundaries', async () => {
+		const expected = await readAll(archive);
+		for (const chunkSize of [1, 2, 3, 5, 6, 7, 13, 64]) {
+			assert.deepEqual(await readAll(withChunkSize(archive, chunkSize)), expected, `chunk size ${chunkSize}`);
+		}
+	});
+
+	it('reports the number of bytes read', async () => {
+		const progress: number[] = [];
+		for await (const message of readMboxMessages(withChunkSize(archive, 100), (bytesRead) => progress.push(bytesRead))) {
+			assert.ok(message.length > 0);
+		}
+
+		assert.equal(progress[progress.length - 1], archive.size);
+		assert.ok(progress.every((bytesRead, i) => i === 0 || bytesRead > progress[i - 1]));
+	});
+});
@@ -0,0 +1,139 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	countAttachmentParts,
+	decodeBase64Url,
+	decodeHeader,
+	decodeQuotedPrintable,
+	decodeText,
+	getHeaderParam,
+	messageToEmailContent,
+	rawMessageToEmailContent
+} from '@/utils/mime';
+
+declare const FIXTURES_DIR: string;
+
+const readFixture = (name: string) => readFileSync(path.join(FIXTURES_DIR, name));
+
+describe('decoding', () => {
+	it('decodes base64url and standard base64', () => {
+		assert.equal(decodeBase64Url('PHA-w5w_PC9wPg').toString('utf-8'), '<p>Ü?</p>');
+		assert.equal(decodeBase64Url('PHA+w5w/PC9wPg==').toString('utf-8'), '<p>Ü?</p>');
+	});
+
+	it('decodes quoted-printable with soft line breaks', () => {
+		assert.equal(decodeText(decodeQuotedPrintable('Caf=E9 =\r\nau lait  \r\n'), 'iso-8859-1'), 'Café au lait\r\n');
+	});
+
+	it('decodes the Windows-1252 range of text labelled ISO-8859-1', () => {
+		assert.equal(decodeText(Buffer.from([0x80, 0x93, 0x94, 0xe9]), 'ISO-8859-1'), '€“”é');
+	});
+
+	it('decodes RFC 2047 encoded-words, joining words in the same charset', () => {
+		assert.equal(decodeHeader('=?ISO-8859-1?Q?Caf=E9_cr=E8me?= now'), 'Café crème now');
+		assert.equal(decodeHeader('=?UTF-8?B?8J+Y?= =?UTF-8?B?gA==?='), '😀');
+		assert.equal(decodeHeader('plain =?utf-8?q?Zo=C3=AB?= text'), 'plain Zoë text');
+	});
+
+	it('reads RFC 2231 parameters and continuations', () => {
+		assert.equal(getHeaderParam("attachment; filename*=UTF-8''N%C3%A4me.pdf", 'filename'), 'Näme.pdf');
+		assert.equal(
+			getHeaderParam('attachment; filename*0*=iso-8859-1\'\'r%E9sum%E9; filename*1=" 2.txt"', 'filename'),
+			'résumé 2.txt'
+		);
+		assert.equal(getHeaderParam('text/plain; charset="utf-8"; format=flowed', 'charset'), 'utf-8');
+	});
+});
+
+describe('latin1-quoted-printable.eml', () => {
+	const email = rawMessageToEmailContent(readFixture('latin1-quoted-printable.eml'));
+
+	it('decodes encoded-word headers', () => {
+		assert.equal(email.subject, 'Café crème and 😀 later');
+		assert.equal(email.fromName, 'Jürgen Müller');
+		assert.equal(email.from, 'juergen@example.de');
+		assert.deepEqual(email.to, ['"Doe, Jane" <jane@example.com>', 'bob@example.com']);
+		assert.deepEqual(email.cc, ['Renée <renee@example.fr>']);
+		assert.equal(email.date, '2023-10-03T12:05:00.000Z');
+		assert.equal(email.messageId, 'latin1-qp@example.de');
+	});
+
+	it('decodes both alternatives in their own charset', () => {
+		assert.equal(email.TextBody?.trim(), 'Grüße aus München, this line is soft-wrapped.');
+		assert.equal(email.HtmlBody?.trim(), '<p>Price: 5 € “quoted”</p>');
+	});
+});
+
+describe('multipart-related.eml', () => {
+	const email = rawMessageToEmailContent(readFixture('multipart-related.eml'));
+
+	it('takes the body from the root part named by the start parameter', () => {
+		assert.equal(
+			email.HtmlBody?.trim(),
+			'<html><body><p>Hello 世界</p><img src="cid:logo@example.com"></body></html>'
+		);
+		assert.equal(email.TextBody?.trim(), 'Hello world');
+	});
+
+	it('returns inline images and attachments with their decoded filenames', () => {
+		assert.deepEqual(
+			email.attachments.map(({ filename, mimeType, contentId }) => ({ filename, mimeType, contentId })),
+			[
+				{ filename: '', mimeType: 'image/png', contentId: '<logo@example.com>' },
+				{ filename: 'Näme über.pdf', mimeType: 'application/pdf', contentId: undefined },
+				{ filename: 'résumé part two.txt', mimeType: 'text/plain', contentId: undefined },
+				{ filename: 'Grüße.bin', mimeType: 'application/octet-stream', contentId: undefined }
+			]
+		);
+		assert.equal(decodeBase64Url(email.attachments[1].data).toString('latin1'), '%PDF-1.4 fake');
+	});
+
+	it('reads the Takeout thread ID and labels', () => {
+		assert.equal(email.threadId, '18af67a1b0c3d2b1');
+		assert.deepEqual(email.labelIds, ['Inbox', 'Important', 'Clients, 2023', 'Opened']);
+	});
+});
+
+describe('gmail-api-message.json', () => {
+	const email = messageToEmailContent(JSON.parse(readFixture('gmail-api-message.json').toString('utf-8')));
+
+	it('decodes base64url part bodies', () => {
+		assert.equal(email.TextBody, 'Ünïcode ✓ ~~~ ???>>> ÿ');
+		assert.equal(email.HtmlBody, '<p>Ünïcode ✓ ~~~ ???>>> ÿ</p>');
+	});
+
+	it('decodes headers and the snippet', () => {
+		assert.equal(email.subject, 'Ünïcode ✓');
+		assert.equal(email.fromName, 'Zoë');
+		assert.equal(email.snippet, "Ünïcode ✓ ~~~ 'quoted' & more");
+		assert.equal(email.rfcMessageId, 'api@example.com');
+	});
+});
+
+describe('countAttachmentParts', () => {
+	it('counts the named parts of a message without part bodies', () => {
+		const payload = {
+			mimeType: 'multipart/mixed',
+			parts: [
+				{
+					mimeType: 'multipart/alternative',
+					parts: [
+						{ mimeType: 'text/plain', filename: '', body: { size: 12 } },
+						{ mimeType: 'text/html', filename: '', body: { size: 40 } }
+					]
+				},
+				{ mimeType: 'application/pdf', filename: 'Invoice.pdf', body: { size: 2048, attachmentId: 'a1' } },
+				{
+					mimeType: 'image/png',
+					filename: '',
+					headers: [{ name: 'Content-Disposition', value: 'attachment; filename="chart.png"' }],
+					body: { size: 300 }
+				}
+			]
+		};
+		assert.equal(countAttachmentParts(payload), 2);
+		assert.equal(countAttachmentParts(undefined), 0);
+	});
+});
@@ -0,0 +1,40 @@
+import moment from 'moment';
+
+// The "obsidian" package only holds type definitions, as the API is provided by the app at runtime.  The tests are
+// bundled with this module in its place, which implements the few parts of the API that the tested modules use.
+
+export { moment };
+
+export const normalizePath = (filePath: string): string => {
+	const normalized = filePath
+		.replace(/[\\/]+/g, '/')
+		.replace(/^\/|\/$/g, '');
+	return normalized === '' ? '/' : normalized;
+};
+
+export const stringifyYaml = (value: unknown): string => `${JSON.stringify(value)}\n`;
+
+export const htmlToMarkdown = (html: string): string => html;
+
+export class TAbstractFile {
+	path = '';
+	name = '';
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	basename = '';
+	extension = '';
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+}
+
+export class Notice {
+	constructor(readonly message: string) {}
+}
+
+export class Modal {}
+
+export class MarkdownView {}
@@ -0,0 +1,34 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+// Bundle every test/*.test.ts file, resolving the "@/" imports from tsconfig.json and the Obsidian API to
+// test/obsidian.ts, and run the bundles with the built-in Node.js test runner.
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const entryPoints = readdirSync(testDir)
+    .filter((file) => file.endsWith(".test.ts"))
+    .map((file) => path.join(testDir, file));
+const outdir = mkdtempSync(path.join(os.tmpdir(), "google-lookup-tests-"));
+
+try {
+    await esbuild.build({
+        entryPoints,
+        outdir,
+        bundle: true,
+        format: "cjs",
+        platform: "node",
+        target: "node16",
+        external: ["electron"],
+        alias: { obsidian: path.join(testDir, "obsidian.ts") },
+        logLevel: "warning",
+        define: { FIXTURES_DIR: JSON.stringify(path.join(testDir, "fixtures")) },
+    });
+    const bundles = readdirSync(outdir).map((file) => path.join(outdir, file));
+    const { status } = spawnSync(process.execPath, ["--test", ...bundles], { stdio: "inherit" });
+    process.exitCode = status ?? 1;
+} finally {
+    rmSync(outdir, { recursive: true, force: true });
+}